@@ -1,16 +1,28 @@
-import React, { Suspense, useRef, useEffect } from 'react';
+import React, { Suspense, useRef, useEffect, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import { OrbitControls, Environment, PerspectiveCamera, Stars, Sparkles } from '@react-three/drei';
 import * as THREE from 'three';
 import LuxuryTree from './components/ParticleTree'; 
 import VisionManager from './components/VisionManager';
+import PhotoUploader from './components/PhotoUploader';
+import SettingsPanel from './components/SettingsPanel';
+import MusicPanel from './components/MusicPanel';
 import { useTreeStore } from './store';
+import { DEFAULT_CALIBRATION, getActiveCalibration, handToCamera } from './components/Calibration';
+import { createQualityGovernor, presetDpr, QUALITY_PRESETS, QualityPreset } from './components/QualityManager';
+import { COLOR_THEMES, ThemeFade, createThemeFade } from './components/ColorThemes';
+import { MusicAnalyser, createMusicAnalyser } from './components/AudioAnalysis';
+import { Soundscape, createSoundscape } from './components/SoundEffects';
 
 // Camera Controller Component
 const GestureController = () => {
   const { camera } = useThree();
-  const { handX, handY, handZ, isTracking } = useTreeStore();
+  const { handX, handY, handZ, isTracking, hands, inputSource, calibrationProfiles, activeProfileId } = useTreeStore();
+  // Calibration describes a person's reach in front of the camera; fallback input is already 0..1
+  const calibration = inputSource === 'camera'
+    ? getActiveCalibration(calibrationProfiles, activeProfileId)
+    : DEFAULT_CALIBRATION;
   
   // Adjusted default position to 18 as requested for better screen fit
   const currentPos = useRef(new THREE.Vector3(0, 0, 18));
@@ -18,21 +30,11 @@ const GestureController = () => {
 
   useFrame((state, delta) => {
     // Enable gesture control whenever a hand is tracked (Open or Closed)
-    if (isTracking) {
-      // Mapping Hand Gestures to Camera Position
-      
-      // 1. Azimuth (Orbit Left/Right)
-      const azimuth = (handX - 0.5) * 2.5; // range -1.25 to 1.25 radians
-      
-      // 2. Elevation (Orbit Up/Down)
-      // Map 0..1 to +12 .. -6 (Wider range for far camera)
-      const elevation = THREE.MathUtils.lerp(12, -6, handY);
-      
-      // 3. Distance (Zoom/Push/Pull)
-      // handZ range ~0.1-0.3. 
-      // New range: 30 (Far) to 12 (Close). Default start is 18.
-      const zInput = THREE.MathUtils.clamp(handZ, 0.05, 0.35);
-      const distance = THREE.MathUtils.mapLinear(zInput, 0.05, 0.35, 30, 12);
+    // Two hands steer the tree instead (spread / twist), so the camera holds still
+    if (isTracking && !(hands.left && hands.right)) {
+      // Mapping Hand Gestures to Camera Position, across the user's calibrated reach
+      // Azimuth = orbit left/right, elevation = orbit up/down, distance = push/pull zoom
+      const { azimuth, elevation, distance } = handToCamera(handX, handY, handZ, calibration);
 
       // Convert Spherical to Cartesian
       targetPos.current.set(
@@ -41,8 +43,8 @@ const GestureController = () => {
         distance * Math.cos(azimuth)
       );
 
-      // Lerp camera position for smoothness
-      currentPos.current.lerp(targetPos.current, delta * 3); // Fast response
+      // Lerp camera position for smoothness (jitter is already filtered out in VisionManager)
+      currentPos.current.lerp(targetPos.current, delta * 6); // Fast response
       
       camera.position.copy(currentPos.current);
       camera.lookAt(0, 0, 0); // Look at center
@@ -55,8 +57,125 @@ const GestureController = () => {
   return null;
 };
 
+// Automatic quality: steps the preset down when frames run long, and back up when there's headroom
+const AdaptiveQuality = () => {
+  const quality = useTreeStore((state) => state.quality);
+  const governor = useMemo(() => createQualityGovernor(useTreeStore.getState().qualityLevel), []);
+
+  // Start measuring afresh whenever the user switches mode
+  useEffect(() => {
+    governor.reset(useTreeStore.getState().qualityLevel);
+  }, [quality]);
+
+  useFrame((state, delta) => {
+    if (quality !== 'auto') return;
+    const next = governor.update(delta * 1000);
+    if (next) useTreeStore.getState().setQualityLevel(next);
+  });
+
+  return null;
+};
+
+// Cross-fades the scene into the chosen colour theme
+const ThemeTransition = ({ fade }: { fade: ThemeFade }) => {
+  const colorTheme = useTreeStore((state) => state.colorTheme);
+  const { scene } = useThree();
+
+  useEffect(() => {
+    fade.setTheme(COLOR_THEMES[colorTheme]);
+  }, [colorTheme]);
+
+  // The background shares the live colour, so it fades along with everything else
+  useEffect(() => {
+    scene.background = fade.colors.background;
+    return () => { scene.background = null; };
+  }, [scene]);
+
+  useFrame((state, delta) => {
+    fade.update(delta);
+  });
+
+  return null;
+};
+
+// Measures the music once per frame, before the tree reads the levels
+const MusicReaction = ({ music }: { music: MusicAnalyser }) => {
+  const sensitivity = useTreeStore((state) => state.music.sensitivity);
+
+  useFrame((state, delta) => {
+    music.update(delta, sensitivity);
+  });
+
+  return null;
+};
+
+// Applies the sound settings and keeps the listener on the camera. Audio starts with the first
+// click, tap or key press, as browsers require; hand gestures alone don't count.
+const SoundSystem = ({ sounds, music }: { sounds: Soundscape, music: MusicAnalyser }) => {
+  const sound = useTreeStore((state) => state.sound);
+
+  useEffect(() => {
+    const unlock = () => sounds.unlock();
+    const events = ['pointerdown', 'keydown', 'touchstart'];
+    events.forEach((event) => window.addEventListener(event, unlock));
+    return () => events.forEach((event) => window.removeEventListener(event, unlock));
+  }, [sounds]);
+
+  useEffect(() => {
+    sounds.apply(sound);
+    music.setVolume(sound.muted ? 0 : sound.volume);
+  }, [sound]);
+
+  useFrame((state) => {
+    sounds.setListener(state.camera);
+  });
+
+  return null;
+};
+
+// Lights copy their colours from the live theme when it changes
+const SceneLights = ({ fade, preset }: { fade: ThemeFade, preset: QualityPreset }) => {
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const keyRef = useRef<THREE.SpotLight>(null);
+  const fillRef = useRef<THREE.PointLight>(null);
+  const accentRef = useRef<THREE.PointLight>(null);
+  const versionRef = useRef(-1);
+
+  useFrame(() => {
+    const { scene, version } = fade.colors;
+    if (versionRef.current === version || !ambientRef.current || !keyRef.current || !fillRef.current || !accentRef.current) return;
+    ambientRef.current.color.copy(scene.ambient);
+    keyRef.current.color.copy(scene.key);
+    fillRef.current.color.copy(scene.fill);
+    accentRef.current.color.copy(scene.accent);
+    versionRef.current = version;
+  });
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={0.2} /> 
+      <spotLight 
+        ref={keyRef}
+        position={[10, 20, 10]} 
+        angle={0.5} 
+        penumbra={1} 
+        intensity={2.8} 
+        castShadow={preset.shadows}
+        shadow-bias={-0.0001}
+      />
+      <pointLight ref={fillRef} position={[-8, 6, -8]} intensity={2} distance={30} /> 
+      <pointLight ref={accentRef} position={[0, -2, 5]} intensity={1} distance={20} /> 
+    </>
+  );
+};
+
 const App: React.FC = () => {
   const { isTracking } = useTreeStore();
+  const preset = QUALITY_PRESETS[useTreeStore((state) => state.qualityLevel)];
+  const colorTheme = useTreeStore((state) => state.colorTheme);
+  const themeFade = useMemo(() => createThemeFade(COLOR_THEMES[useTreeStore.getState().colorTheme]), []);
+  const music = useMemo(() => createMusicAnalyser(), []);
+  const sounds = useMemo(() => createSoundscape(), []);
 
   return (
     <div className="relative w-full h-screen bg-[#020205]">
@@ -64,46 +183,46 @@ const App: React.FC = () => {
       {/* 2. Vision Logic (Webcam) */}
       <VisionManager />
 
+      {/* Photo Upload Panel */}
+      <PhotoUploader />
+
+      {/* Settings & Storage */}
+      <SettingsPanel />
+
+      {/* Music the tree reacts to */}
+      <MusicPanel music={music} />
+
       {/* 3. 3D Scene */}
       <Canvas
-        dpr={[1, 2]} 
+        dpr={presetDpr(preset)} 
         gl={{ antialias: false, toneMappingExposure: 1.2 }} 
-        shadows
+        shadows={preset.shadows}
+        style={{ touchAction: 'none' }} // Touch fallback handles drags and pinches itself
       >
         {/* Adjusted default position to [0, 0, 18] */}
         <PerspectiveCamera makeDefault position={[0, 0, 18]} fov={50} />
         
         {/* Gesture Controller */}
         <GestureController />
-
-        {/* Dark Starry Background */}
-        <color attach="background" args={['#020005']} />
+        <AdaptiveQuality />
+        <ThemeTransition fade={themeFade} />
+        <MusicReaction music={music} />
+        <SoundSystem sounds={sounds} music={music} />
         
         {/* Environment: Stars & Dust */}
-        <Stars radius={100} depth={50} count={7000} factor={6} saturation={0} fade speed={0.5} />
-        <Sparkles count={800} scale={20} size={4} speed={0.3} opacity={0.6} color="#ffd700" />
+        <Stars radius={100} depth={50} count={Math.round(7000 * preset.ambient)} factor={6} saturation={0} fade speed={0.5} />
+        <Sparkles count={Math.round(800 * preset.ambient)} scale={20} size={4} speed={0.3} opacity={0.6} color={COLOR_THEMES[colorTheme].scene.sparkles} />
         
-        {/* Warm Magical Lighting */}
-        <ambientLight intensity={0.2} color="#503060" /> 
-        <spotLight 
-          position={[10, 20, 10]} 
-          angle={0.5} 
-          penumbra={1} 
-          intensity={2.8} 
-          color="#ffaa55" // Warm Golden Light
-          castShadow 
-          shadow-bias={-0.0001}
-        />
-        <pointLight position={[-8, 6, -8]} intensity={2} color="#cc33ff" distance={30} /> 
-        <pointLight position={[0, -2, 5]} intensity={1} color="#ff3333" distance={20} /> 
+        {/* Themed Lighting: key spot, fill and accent points */}
+        <SceneLights fade={themeFade} preset={preset} />
         
         <Environment preset="city" blur={0.8} />
 
         <Suspense fallback={null}>
-          <LuxuryTree />
+          <LuxuryTree palette={themeFade.colors} music={music.levels} sounds={sounds} />
           
           <EffectComposer enableNormalPass={false}>
-            <Bloom luminanceThreshold={0.8} mipmapBlur intensity={1.5} radius={0.5} />
+            {preset.bloom && <Bloom luminanceThreshold={0.8} mipmapBlur intensity={1.5} radius={0.5} />}
             <Vignette eskil={false} offset={0.1} darkness={0.8} />
             <Noise opacity={0.02} />
           </EffectComposer>
@@ -0,0 +1,128 @@
+import { MusicSettings } from '../types';
+
+/**
+ * Music Analysis
+ * Listens to whatever is playing (see MusicSources) through a Web Audio AnalyserNode and boils
+ * the spectrum down to a few levels the scene reacts to: bass, mid and treble energy, overall
+ * loudness and a beat pulse. The levels object is shared by reference and rewritten every frame.
+ */
+
+export const MUSIC_SENSITIVITY_LIMITS = { min: 0.25, max: 3 };
+
+export const DEFAULT_MUSIC: MusicSettings = {
+  sensitivity: 1,
+};
+
+// Frequency bands, in Hz
+const BANDS = {
+  bass: [20, 150],
+  mid: [150, 2000],
+  treble: [2000, 8000],
+} as const;
+
+const FFT_SIZE = 1024;
+const BEAT_HOLD_SECONDS = 0.25; // Shortest gap between two beats
+const BEAT_DECAY = 4; // Pulse fades out over a quarter second
+const AVERAGE_SECONDS = 1; // How far back "recent" bass goes
+
+// 0..1 each; all zero while nothing plays
+export interface MusicLevels {
+  bass: number;
+  mid: number;
+  treble: number;
+  energy: number;
+  beat: number; // 1 on a beat, fading to 0
+}
+
+/**
+ * Beats are moments when the bass jumps well above its recent average. Higher sensitivity
+ * lowers the jump needed.
+ */
+export const createBeatDetector = () => {
+  let average = 0;
+  let hold = 0;
+  let pulse = 0;
+
+  return (bass: number, delta: number, sensitivity: number) => {
+    pulse = Math.max(0, pulse - delta * BEAT_DECAY);
+    hold = Math.max(0, hold - delta);
+    const ratio = 1 + 0.5 / sensitivity;
+    if (hold === 0 && bass > 0.05 && bass > average * ratio) {
+      pulse = 1;
+      hold = BEAT_HOLD_SECONDS;
+    }
+    average += (bass - average) * Math.min(1, delta / AVERAGE_SECONDS);
+    return pulse;
+  };
+};
+
+export interface MusicAnalyser {
+  levels: MusicLevels; // Live, shared by reference
+  /**
+   * The audio graph sources play into, created on first use. Call it from a click or key
+   * handler: browsers keep audio suspended until the page has been interacted with.
+   */
+  connect: () => MusicGraph;
+  update: (delta: number, sensitivity: number) => void;
+  setVolume: (volume: number) => void;
+}
+
+// Sources feed `analyser`; ones that should be heard also feed `output`
+export interface MusicGraph {
+  context: AudioContext;
+  analyser: AnalyserNode;
+  output: GainNode;
+}
+
+export const createMusicAnalyser = (): MusicAnalyser => {
+  const levels: MusicLevels = { bass: 0, mid: 0, treble: 0, energy: 0, beat: 0 };
+  const detectBeat = createBeatDetector();
+  let graph: MusicGraph | null = null;
+  let bins = new Uint8Array(0);
+  let volume = 1;
+
+  const connect = () => {
+    if (!graph) {
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.6;
+      bins = new Uint8Array(analyser.frequencyBinCount);
+      const output = context.createGain();
+      output.gain.value = volume;
+      output.connect(context.destination);
+      graph = { context, analyser, output };
+    }
+    if (graph.context.state === 'suspended') graph.context.resume();
+    return graph;
+  };
+
+  // Mean of the bins covering [low, high) Hz, as 0..1
+  const bandLevel = ([low, high]: readonly [number, number], binHz: number) => {
+    const from = Math.max(0, Math.floor(low / binHz));
+    const to = Math.min(bins.length, Math.ceil(high / binHz));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += bins[i];
+    return to > from ? sum / ((to - from) * 255) : 0;
+  };
+
+  const update = (delta: number, sensitivity: number) => {
+    if (!graph) return;
+    graph.analyser.getByteFrequencyData(bins);
+    const binHz = graph.context.sampleRate / FFT_SIZE;
+    const bass = bandLevel(BANDS.bass, binHz);
+    levels.bass = Math.min(1, bass * sensitivity);
+    levels.mid = Math.min(1, bandLevel(BANDS.mid, binHz) * sensitivity);
+    levels.treble = Math.min(1, bandLevel(BANDS.treble, binHz) * sensitivity * 1.5); // Treble runs quieter
+    levels.energy = (levels.bass + levels.mid + levels.treble) / 3;
+    levels.beat = detectBeat(bass, delta, sensitivity);
+  };
+
+  // The analyser listens before the volume, so turning it down doesn't calm the tree
+  const setVolume = (next: number) => {
+    volume = next;
+    if (graph) graph.output.gain.setTargetAtTime(volume, graph.context.currentTime, 0.05);
+  };
+
+  return { levels, connect, update, setVolume };
+};
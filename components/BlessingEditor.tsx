@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { useTreeStore } from '../store';
+import { MAX_BLESSINGS, MAX_BLESSING_LENGTH, parseBlessings, serializeBlessings } from './Blessings';
+
+const downloadText = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BlessingEditor = ({ onClose }: { onClose: () => void }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const blessings = useTreeStore((state) => state.blessings);
+  const setBlessings = useTreeStore((state) => state.setBlessings);
+
+  // Row keys that follow each message as it moves, so a textarea keeps its focus and cursor
+  // when rows above it are reordered or deleted
+  const nextKeyRef = useRef(0);
+  const newKey = () => nextKeyRef.current++;
+  const [keys, setKeys] = useState<number[]>(() => blessings.map(newKey));
+  // Replaced from outside the editor (share link, reset): start the keys over
+  const rowKeys = keys.length === blessings.length ? keys : blessings.map((_, i) => -1 - i);
+
+  const commit = (messages: string[], nextKeys: number[]) => {
+    setKeys(nextKeys);
+    setBlessings(messages);
+  };
+
+  const update = (index: number, text: string) => {
+    commit(blessings.map((m, i) => (i === index ? text : m)), rowKeys);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= blessings.length) return;
+    const next = [...blessings];
+    const nextKeys = [...rowKeys];
+    [next[index], next[target]] = [next[target], next[index]];
+    [nextKeys[index], nextKeys[target]] = [nextKeys[target], nextKeys[index]];
+    commit(next, nextKeys);
+  };
+
+  const remove = (index: number) => {
+    commit(blessings.filter((_, i) => i !== index), rowKeys.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    if (blessings.length < MAX_BLESSINGS) commit([...blessings, ''], [...rowKeys, newKey()]);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const messages = parseBlessings(await file.text(), file.name);
+      if (messages.length === 0) throw new Error('No messages found');
+      commit(messages, messages.map(newKey));
+      setImportError(null);
+    } catch (error) {
+      setImportError(`Could not import "${file.name}": ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm font-mono text-xs">
+      <div className="w-[28rem] max-w-[95vw] max-h-[85vh] flex flex-col p-4 rounded-lg border border-white/20 bg-black/80 text-white/80">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-amber-200 tracking-widest">CARD MESSAGES ({blessings.length}/{MAX_BLESSINGS})</span>
+          <button onClick={onClose} className="px-2 text-white/60 hover:text-white" aria-label="Close">✕</button>
+        </div>
+
+        {/* Message List */}
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {blessings.map((message, i) => (
+            <div key={rowKeys[i]} className="flex items-start gap-2">
+              <span className="w-6 pt-1 text-right text-white/40">{i + 1}</span>
+              <textarea
+                value={message}
+                maxLength={MAX_BLESSING_LENGTH}
+                rows={2}
+                placeholder="Write a message..."
+                onChange={(e) => update(i, e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 resize-none focus:outline-none focus:border-amber-400/60"
+              />
+              <div className="flex flex-col">
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="px-1 disabled:opacity-20 hover:text-amber-200" aria-label="Move up">▲</button>
+                <button onClick={() => move(i, 1)} disabled={i === blessings.length - 1} className="px-1 disabled:opacity-20 hover:text-amber-200" aria-label="Move down">▼</button>
+              </div>
+              <button onClick={() => remove(i)} className="px-1 pt-1 text-white/50 hover:text-red-400" aria-label="Delete message">✕</button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={add}
+          disabled={blessings.length >= MAX_BLESSINGS}
+          className="mt-3 py-1 rounded border border-dashed border-white/30 hover:border-amber-400/70 hover:text-amber-200 disabled:opacity-30"
+        >
+          + Add Message
+        </button>
+
+        {/* Import / Export */}
+        <div className="flex gap-2 mt-3">
+          <button onClick={() => inputRef.current?.click()} className="flex-1 py-1 rounded border border-white/20 hover:border-white/50">Import</button>
+          <button onClick={() => downloadText(serializeBlessings(blessings, 'json'), 'messages.json', 'application/json')} className="flex-1 py-1 rounded border border-white/20 hover:border-white/50">Export JSON</button>
+          <button onClick={() => downloadText(serializeBlessings(blessings, 'txt'), 'messages.txt', 'text/plain')} className="flex-1 py-1 rounded border border-white/20 hover:border-white/50">Export Text</button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,.txt,application/json,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importError && <div className="mt-2 text-red-300">{importError}</div>}
+        <div className="mt-2 text-white/40">Text files: one message per paragraph, separated by a blank line. Line breaks inside a message are written as \n.</div>
+      </div>
+    </div>
+  );
+};
+
+export default BlessingEditor;
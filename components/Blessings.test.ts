@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseBlessings, serializeBlessings } from './Blessings';
+
+const messages = ['Peace on earth', 'Joy\n\nto the world', 'A\\nbackslash\\', 'Two\nlines'];
+
+describe('blessing files', () => {
+  it('round-trips messages with line breaks through both formats', () => {
+    expect(parseBlessings(serializeBlessings(messages, 'txt'), 'messages.txt')).toEqual(messages);
+    expect(parseBlessings(serializeBlessings(messages, 'json'), 'messages.json')).toEqual(messages);
+  });
+
+  it('reads hand-written text files, one message per paragraph', () => {
+    const content = 'Merry Christmas\r\n\r\nHappy\nNew Year\n\n\n\nSee you soon\n';
+    expect(parseBlessings(content, 'notes.txt')).toEqual(['Merry Christmas', 'Happy\nNew Year', 'See you soon']);
+  });
+
+  it('reads JSON files wrapped in an object', () => {
+    expect(parseBlessings('{ "messages": ["One", "  ", "Two"] }', 'list.json')).toEqual(['One', 'Two']);
+    expect(() => parseBlessings('{ "messages": [1] }', 'list.json')).toThrow('Expected a JSON array of message strings');
+  });
+});
@@ -0,0 +1,146 @@
+// Insightful, Cheerful & Wise Quotes (Updated with witty & warm Christmas wishes)
+// Line breaks are computed when the card is drawn, so entries are plain sentences
+export const DEFAULT_BLESSINGS = [
+  "May your Wi-Fi be strong & your coffee hot.",
+  "You light up the room brighter than this tree.",
+  "Calories don't count in December.",
+  "Santa saw your Instagram. You're getting clothes.", // A bit of humor
+  "May your wrapping paper cut like butter.", // The ultimate satisfaction
+  "You are the marshmallow to my cocoa.",
+  "Rest is productive. Sleep in.",
+  "May your leftovers be delicious.",
+  "Unwrap yourself. You are a gift.",
+  "Peace over perfection this year.",
+  "Your smile is my favorite ornament.",
+  "Stay cozy, stay wild, stay you.",
+  "May your socks be warm & heart light.",
+  "Don't get your tinsel in a tangle.",
+  "Wishing you silence when you need it.",
+  "You deserve the biggest cookie.",
+  "Snowflakes are unique. Just like you.",
+  "Glow differently this year.",
+  "May your heart be as full as your plate.",
+  "Collect moments, not things.",
+  "Put down the phone. Look at the stars.",
+  "You make winter feel warm.",
+  "Wishing you a season of small miracles.",
+  "Treat yourself like a friend.",
+  "Believe in the magic of new starts.",
+  "Sparkle a little brighter.",
+  "You are loved more than you know.",
+  "Relax. You've done enough.",
+  "Here’s to slow mornings.",
+  "Merry everything & happy always."
+];
+
+export const MAX_BLESSINGS = 100;
+export const MAX_BLESSING_LENGTH = 200;
+
+/**
+ * Line Wrapping
+ */
+
+// Scripts written without spaces (CJK, kana, hangul, fullwidth forms) may break between any two characters
+const TOKEN_PATTERN = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]|[^\s\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]+|\s+/g;
+
+/**
+ * Greedy word wrap using the context's current font.
+ * Explicit newlines are kept as paragraph breaks; words wider than a line are split between characters.
+ */
+export const wrapMessage = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    for (const token of paragraph.match(TOKEN_PATTERN) ?? []) {
+      if (/^\s+$/.test(token)) {
+        if (line) line += ' ';
+        continue;
+      }
+      if (ctx.measureText(line + token).width <= maxWidth) {
+        line += token;
+        continue;
+      }
+      if (line.trim()) lines.push(line.trim());
+      line = '';
+      for (const char of token) {
+        if (line && ctx.measureText(line + char).width > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line.trim());
+  });
+
+  return lines;
+};
+
+export interface MessageLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+}
+
+const MAX_FONT_SIZE = 90;
+const MIN_FONT_SIZE = 36;
+
+/**
+ * Picks the largest font size at which `text` wraps into the given box.
+ * Text that overflows even at the smallest size is cut with an ellipsis.
+ */
+export const fitMessage = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  fontFamily: string,
+  maxWidth: number,
+  maxHeight: number
+): MessageLayout => {
+  let layout: MessageLayout = { lines: [], fontSize: MIN_FONT_SIZE, lineHeight: 0 };
+
+  for (let fontSize = MAX_FONT_SIZE; fontSize >= MIN_FONT_SIZE; fontSize -= 6) {
+    ctx.font = `${fontSize}px ${fontFamily}`;
+    const lineHeight = Math.round(fontSize * 1.1);
+    layout = { lines: wrapMessage(ctx, text, maxWidth), fontSize, lineHeight };
+    if (layout.lines.length * lineHeight <= maxHeight) return layout;
+  }
+
+  const maxLines = Math.max(1, Math.floor(maxHeight / layout.lineHeight));
+  const lines = layout.lines.slice(0, maxLines);
+  lines[maxLines - 1] = lines[maxLines - 1].replace(/.?$/, '…');
+  return { ...layout, lines };
+};
+
+/**
+ * Import / Export
+ * JSON: an array of strings (or `{ "messages": [...] }`).
+ * Plain text: one message per paragraph, separated by blank lines. Line breaks inside a message
+ * are escaped as `\n` (and backslashes as `\\`), so a blank line in a message can't split it.
+ */
+const escapeLineBreaks = (message: string) => message.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+const unescapeLineBreaks = (paragraph: string) => paragraph.replace(/\\([\\n])/g, (_, c) => (c === 'n' ? '\n' : '\\'));
+
+export const parseBlessings = (content: string, fileName: string): string[] => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content);
+  let messages: unknown;
+
+  if (isJson) {
+    const data = JSON.parse(content);
+    messages = Array.isArray(data) ? data : data?.messages;
+    if (!Array.isArray(messages) || !messages.every((m) => typeof m === 'string')) {
+      throw new Error('Expected a JSON array of message strings');
+    }
+  } else {
+    messages = content.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(unescapeLineBreaks);
+  }
+
+  return (messages as string[])
+    .map((m) => m.trim().slice(0, MAX_BLESSING_LENGTH))
+    .filter((m) => m.length > 0)
+    .slice(0, MAX_BLESSINGS);
+};
+
+export const serializeBlessings = (messages: string[], format: 'json' | 'txt'): string => {
+  return format === 'json' ? JSON.stringify(messages, null, 2) : messages.map(escapeLineBreaks).join('\n\n') + '\n';
+};
@@ -0,0 +1,94 @@
+import { CalibrationProfile } from '../types';
+import { DEFAULT_OPEN_THRESHOLD } from './HandTracking';
+
+/**
+ * Hand Calibration
+ * A profile records how far one person actually reaches in front of their camera, so the full
+ * orbit/zoom range is available without stretching to the frame edges, and where their
+ * open/closed hand threshold lies.
+ */
+
+export type CalibrationRange = Omit<CalibrationProfile, 'id' | 'name'>;
+
+// Matches the original fixed mapping: full frame, handZ 0.05 (far) to 0.35 (near)
+export const DEFAULT_CALIBRATION: CalibrationRange = {
+  xMin: 0,
+  xMax: 1,
+  yMin: 0,
+  yMax: 1,
+  zFar: 0.05,
+  zNear: 0.35,
+  openThreshold: DEFAULT_OPEN_THRESHOLD,
+};
+
+export type CalibrationStep = 'left' | 'right' | 'up' | 'down' | 'near' | 'far' | 'open' | 'closed';
+
+export const CALIBRATION_STEPS: { step: CalibrationStep, prompt: string }[] = [
+  { step: 'left', prompt: 'Reach as far LEFT as is comfortable' },
+  { step: 'right', prompt: 'Reach as far RIGHT as is comfortable' },
+  { step: 'up', prompt: 'Raise your hand as HIGH as is comfortable' },
+  { step: 'down', prompt: 'Lower your hand as far DOWN as is comfortable' },
+  { step: 'near', prompt: 'Bring your hand CLOSE to the camera' },
+  { step: 'far', prompt: 'Pull your hand FAR from the camera' },
+  { step: 'open', prompt: 'Hold your hand wide OPEN' },
+  { step: 'closed', prompt: 'Close your hand into a FIST' },
+];
+
+// Smallest usable spans; anything tighter is almost certainly a missed step
+const MIN_REACH = 0.15;
+const MIN_DEPTH = 0.03;
+const MIN_OPENNESS_GAP = 0.1;
+
+/**
+ * Turns one reading per step into a profile range. Throws with a user-facing message
+ * when the readings can't make a usable profile.
+ */
+export const buildCalibration = (readings: Record<CalibrationStep, number>): CalibrationRange => {
+  const xMin = Math.min(readings.left, readings.right);
+  const xMax = Math.max(readings.left, readings.right);
+  const yMin = Math.min(readings.up, readings.down);
+  const yMax = Math.max(readings.up, readings.down);
+
+  if (xMax - xMin < MIN_REACH) throw new Error('Left and right were too close together');
+  if (yMax - yMin < MIN_REACH) throw new Error('Up and down were too close together');
+  if (readings.near - readings.far < MIN_DEPTH) throw new Error('Near and far were too similar');
+  if (readings.open - readings.closed < MIN_OPENNESS_GAP) throw new Error('Open and closed hands looked the same');
+
+  return {
+    xMin,
+    xMax,
+    yMin,
+    yMax,
+    zFar: readings.far,
+    zNear: readings.near,
+    // Halfway between the two poses, so a half-open hand doesn't sit right on the edge
+    openThreshold: (readings.open + readings.closed) / 2,
+  };
+};
+
+export const getActiveCalibration = (profiles: CalibrationProfile[], activeId: string | null): CalibrationRange => {
+  return profiles.find((p) => p.id === activeId) ?? DEFAULT_CALIBRATION;
+};
+
+const unit = (value: number, from: number, to: number) => Math.min(1, Math.max(0, (value - from) / (to - from)));
+
+/**
+ * Maps raw hand position/size onto 0..1 across the user's own reach (z: 0 = far, 1 = near).
+ */
+export const normalizeHand = (x: number, y: number, z: number, calibration: CalibrationRange) => ({
+  x: unit(x, calibration.xMin, calibration.xMax),
+  y: unit(y, calibration.yMin, calibration.yMax),
+  z: unit(z, calibration.zFar, calibration.zNear),
+});
+
+/**
+ * Where the camera orbits to for a hand position: azimuth in radians, elevation and distance in world units.
+ */
+export const handToCamera = (x: number, y: number, z: number, calibration: CalibrationRange) => {
+  const hand = normalizeHand(x, y, z, calibration);
+  return {
+    azimuth: (hand.x - 0.5) * 2.5, // range -1.25 to 1.25 radians
+    elevation: 12 + (-6 - 12) * hand.y, // Map 0..1 to +12 .. -6 (Wider range for far camera)
+    distance: 30 + (12 - 30) * hand.z, // Far reach -> 30, near reach -> 12. Default start is 18.
+  };
+};
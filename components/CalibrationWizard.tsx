@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useTreeStore } from '../store';
+import { HandState } from '../types';
+import { CALIBRATION_STEPS, CalibrationRange, CalibrationStep, buildCalibration } from './Calibration';
+
+// Time to get into position, then time the pose is sampled for
+const SETTLE_MS = 1200;
+const CAPTURE_MS = 1500;
+const SAMPLE_INTERVAL_MS = 50;
+
+// Which hand measurement each step records
+const readingFor = (step: CalibrationStep, hand: HandState) => {
+  switch (step) {
+    case 'left': case 'right': return hand.x;
+    case 'up': case 'down': return hand.y;
+    case 'near': case 'far': return hand.z;
+    case 'open': case 'closed': return hand.openness;
+  }
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const CalibrationWizard = ({ onClose }: { onClose: () => void }) => {
+  const saveCalibrationProfile = useTreeStore((state) => state.saveCalibrationProfile);
+  const profileCount = useTreeStore((state) => state.calibrationProfiles.length);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [readings, setReadings] = useState<Partial<Record<CalibrationStep, number>>>({});
+  const [progress, setProgress] = useState(0);
+  const [isHandVisible, setIsHandVisible] = useState(false);
+  const [name, setName] = useState(`Profile ${profileCount + 1}`);
+
+  const current = CALIBRATION_STEPS[stepIndex];
+
+  // Sample the current step: wait for the hand to settle, then take the median over the capture window.
+  // Losing the hand restarts the step so a half-captured pose can't slip through.
+  useEffect(() => {
+    if (!current) return;
+    let visibleSince: number | null = null;
+    let samples: number[] = [];
+
+    const timer = window.setInterval(() => {
+      const { hands } = useTreeStore.getState();
+      const hand = hands.right ?? hands.left;
+      const now = performance.now();
+      setIsHandVisible(hand !== null);
+
+      if (!hand) {
+        visibleSince = null;
+        samples = [];
+        setProgress(0);
+        return;
+      }
+      if (visibleSince === null) visibleSince = now;
+
+      const elapsed = now - visibleSince;
+      if (elapsed >= SETTLE_MS) samples.push(readingFor(current.step, hand));
+      setProgress(Math.min(1, elapsed / (SETTLE_MS + CAPTURE_MS)));
+
+      if (elapsed >= SETTLE_MS + CAPTURE_MS && samples.length > 0) {
+        window.clearInterval(timer);
+        setReadings((prev) => ({ ...prev, [current.step]: median(samples) }));
+        setProgress(0);
+        setStepIndex((i) => i + 1);
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [stepIndex]);
+
+  let result: CalibrationRange | null = null;
+  let resultError: string | null = null;
+  if (!current) {
+    try {
+      result = buildCalibration(readings as Record<CalibrationStep, number>);
+    } catch (error) {
+      resultError = (error as Error).message;
+    }
+  }
+
+  const restart = () => {
+    setReadings({});
+    setStepIndex(0);
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    saveCalibrationProfile({ id: uuidv4(), name: name.trim() || `Profile ${profileCount + 1}`, ...result });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm font-mono text-xs">
+      <div className="w-[24rem] max-w-[95vw] p-4 rounded-lg border border-white/20 bg-black/80 text-white/80 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-amber-200 tracking-widest">
+            CALIBRATION {current ? `(${stepIndex + 1}/${CALIBRATION_STEPS.length})` : ''}
+          </span>
+          <button onClick={onClose} className="px-2 text-white/60 hover:text-white" aria-label="Close">✕</button>
+        </div>
+
+        {current && (
+          <>
+            <div className="text-sm text-white">{current.prompt}</div>
+            <div className="h-1 rounded bg-white/10 overflow-hidden">
+              <div className="h-full bg-amber-400 transition-[width] duration-100" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <div className="text-white/50">
+              {isHandVisible ? 'Hold still…' : 'Show one hand to the camera'}
+            </div>
+          </>
+        )}
+
+        {resultError && (
+          <>
+            <div className="text-red-300">{resultError}. Please try again.</div>
+            <button onClick={restart} className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200">
+              Start Over
+            </button>
+          </>
+        )}
+
+        {result && (
+          <>
+            <div className="text-white/60 space-y-0.5">
+              <div>Reach X: {result.xMin.toFixed(2)} – {result.xMax.toFixed(2)}</div>
+              <div>Reach Y: {result.yMin.toFixed(2)} – {result.yMax.toFixed(2)}</div>
+              <div>Depth: {result.zFar.toFixed(3)} – {result.zNear.toFixed(3)}</div>
+              <div>Open threshold: {result.openThreshold.toFixed(2)}</div>
+            </div>
+            <input
+              value={name}
+              maxLength={24}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+            />
+            <div className="flex gap-2">
+              <button onClick={restart} className="flex-1 py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200">
+                Redo
+              </button>
+              <button onClick={handleSave} className="flex-1 py-1 rounded border border-amber-400/50 text-amber-200 hover:bg-amber-500/20">
+                Save Profile
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
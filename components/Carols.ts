@@ -0,0 +1,175 @@
+/**
+ * Bundled Carols
+ * A small playlist that needs no downloads: each carol is written out as notes and rendered to
+ * audio on first play, with a bell-like melody, a bass note per bar and a soft kick drum to give
+ * the music analyser a beat to find.
+ */
+
+export interface Carol {
+  id: string;
+  title: string;
+  bpm: number; // Beats per minute, in the unit the durations below use
+  beatsPerBar: number;
+  pickup: number; // Beats before the first full bar
+  kickEvery: number; // Beats between kicks
+  melody: string; // "E4:1 G4:1.5 -:1", i.e. note (or - for a rest) and length in beats
+  bass: string; // One root note per bar
+}
+
+export const CAROLS: Carol[] = [
+  {
+    id: 'jingle-bells',
+    title: 'Jingle Bells',
+    bpm: 132,
+    beatsPerBar: 4,
+    pickup: 0,
+    kickEvery: 1,
+    melody: `
+      E4:1 E4:1 E4:2 E4:1 E4:1 E4:2 E4:1 G4:1 C4:1.5 D4:.5 E4:4
+      F4:1 F4:1 F4:1.5 F4:.5 F4:1 E4:1 E4:1 E4:.5 E4:.5 E4:1 D4:1 D4:1 E4:1 D4:2 G4:2
+      E4:1 E4:1 E4:2 E4:1 E4:1 E4:2 E4:1 G4:1 C4:1.5 D4:.5 E4:4
+      F4:1 F4:1 F4:1 F4:1 F4:1 E4:1 E4:1 E4:.5 E4:.5 G4:1 G4:1 F4:1 D4:1 C4:4
+    `,
+    bass: 'C2 C2 C2 C2 F2 C2 D2 G2 C2 C2 C2 C2 F2 C2 G2 C2',
+  },
+  {
+    id: 'we-wish-you',
+    title: 'We Wish You a Merry Christmas',
+    bpm: 160,
+    beatsPerBar: 3,
+    pickup: 1,
+    kickEvery: 3,
+    melody: `
+      D4:1
+      G4:1 G4:.5 A4:.5 G4:.5 F#4:.5 E4:1 E4:1 E4:1
+      A4:1 A4:.5 B4:.5 A4:.5 G4:.5 F#4:1 D4:1 D4:1
+      B4:1 B4:.5 C5:.5 B4:.5 A4:.5 G4:1 E4:1 D4:.5 D4:.5
+      E4:1 A4:1 F#4:1 G4:2 D4:1
+      G4:1 G4:.5 A4:.5 G4:.5 F#4:.5 E4:1 E4:1 E4:1
+      A4:1 A4:.5 B4:.5 A4:.5 G4:.5 F#4:1 D4:1 D4:1
+      B4:1 B4:.5 C5:.5 B4:.5 A4:.5 G4:1 E4:1 D4:.5 D4:.5
+      E4:1 A4:1 F#4:1 G4:2 -:1
+    `,
+    bass: 'G2 C2 A2 D2 B2 E2 D2 G2 G2 C2 A2 D2 B2 E2 D2 G2',
+  },
+  {
+    id: 'deck-the-halls',
+    title: 'Deck the Halls',
+    bpm: 120,
+    beatsPerBar: 4,
+    pickup: 0,
+    kickEvery: 2,
+    melody: `
+      G4:1.5 F4:.5 E4:1 D4:1 C4:1 D4:1 E4:1 C4:1 D4:.5 E4:.5 F4:.5 D4:.5 E4:1.5 D4:.5 C4:1 B3:1 C4:2
+      G4:1.5 F4:.5 E4:1 D4:1 C4:1 D4:1 E4:1 C4:1 D4:.5 E4:.5 F4:.5 D4:.5 E4:1.5 D4:.5 C4:1 B3:1 C4:2
+      D4:1.5 E4:.5 F4:1 D4:1 E4:1.5 F4:.5 G4:1 D4:1 E4:.5 F#4:.5 G4:1 A4:.5 B4:.5 C5:1 B4:1 A4:1 G4:2
+      G4:1.5 F4:.5 E4:1 D4:1 C4:1 D4:1 E4:1 C4:1 A4:.5 A4:.5 A4:.5 A4:.5 G4:1.5 F4:.5 E4:1 D4:1 C4:2
+    `,
+    bass: 'C2 C2 G2 C2 C2 C2 G2 C2 G2 C2 D2 G2 C2 C2 F2 C2',
+  },
+  {
+    id: 'silent-night',
+    title: 'Silent Night',
+    bpm: 120, // Eighth notes
+    beatsPerBar: 6,
+    pickup: 0,
+    kickEvery: 3,
+    melody: `
+      G4:1.5 A4:.5 G4:1 E4:3 G4:1.5 A4:.5 G4:1 E4:3 D5:2 D5:1 B4:3 C5:2 C5:1 G4:3
+      A4:2 A4:1 C5:1.5 B4:.5 A4:1 G4:1.5 A4:.5 G4:1 E4:3 A4:2 A4:1 C5:1.5 B4:.5 A4:1 G4:1.5 A4:.5 G4:1 E4:3
+      D5:2 D5:1 F5:1.5 D5:.5 B4:1 C5:3 E5:3 C5:1.5 G4:.5 E4:1 G4:1.5 F4:.5 D4:1 C4:6
+    `,
+    bass: 'C2 C2 G2 C2 F2 C2 F2 C2 G2 C2 G2 C2',
+  },
+];
+
+const SAMPLE_RATE = 22050; // Plenty for a music box, at half the memory
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "F#4" -> Hz (A4 = 440)
+export const noteFrequency = (note: string) => {
+  const match = /^([A-G])([#b]?)(-?\d)$/.exec(note);
+  if (!match) throw new Error(`Unknown note ${note}`);
+  const midi = 12 * (Number(match[3]) + 1) + NOTE_OFFSETS[match[1]] + (match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0);
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+// Notes with start and length in beats; rests only move the clock
+export const parseMelody = (melody: string) => {
+  const notes: { frequency: number, start: number, length: number }[] = [];
+  let beat = 0;
+  for (const token of melody.trim().split(/\s+/)) {
+    const [note, length] = token.split(':');
+    if (note !== '-') notes.push({ frequency: noteFrequency(note), start: beat, length: Number(length) });
+    beat += Number(length);
+  }
+  return { notes, beats: beat };
+};
+
+const playTone = (
+  context: BaseAudioContext,
+  type: OscillatorType,
+  frequency: number,
+  start: number,
+  length: number,
+  peak: number
+) => {
+  const osc = context.createOscillator();
+  const gain = context.createGain();
+  osc.type = type;
+  osc.frequency.value = frequency;
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(peak, start + 0.015);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + length);
+  osc.connect(gain).connect(context.destination);
+  osc.start(start);
+  osc.stop(start + length);
+};
+
+const playKick = (context: BaseAudioContext, start: number) => {
+  const osc = context.createOscillator();
+  const gain = context.createGain();
+  osc.frequency.setValueAtTime(110, start);
+  osc.frequency.exponentialRampToValueAtTime(45, start + 0.12);
+  gain.gain.setValueAtTime(0.6, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+  osc.connect(gain).connect(context.destination);
+  osc.start(start);
+  osc.stop(start + 0.25);
+};
+
+const rendered = new Map<string, Promise<AudioBuffer>>();
+
+/**
+ * The carol as audio, rendered once and kept for the rest of the session.
+ */
+export const renderCarol = (carol: Carol): Promise<AudioBuffer> => {
+  const cached = rendered.get(carol.id);
+  if (cached) return cached;
+
+  const beat = 60 / carol.bpm;
+  const { notes, beats } = parseMelody(carol.melody);
+  const tail = 1.5; // Let the last note ring out
+  const context = new OfflineAudioContext(1, Math.ceil((beats * beat + tail) * SAMPLE_RATE), SAMPLE_RATE);
+
+  // Melody: a triangle wave with a quiet octave above, like a music box
+  for (const note of notes) {
+    const start = note.start * beat;
+    const length = Math.max(note.length * beat, 0.25) + 0.3;
+    playTone(context, 'triangle', note.frequency, start, length, 0.22);
+    playTone(context, 'sine', note.frequency * 2, start, length * 0.6, 0.05);
+  }
+
+  // Bass and kick follow the bars, after the pickup
+  carol.bass.trim().split(/\s+/).forEach((root, bar) => {
+    const start = (carol.pickup + bar * carol.beatsPerBar) * beat;
+    playTone(context, 'sine', noteFrequency(root), start, carol.beatsPerBar * beat, 0.3);
+  });
+  for (let b = carol.pickup; b < beats; b += carol.kickEvery) playKick(context, b * beat);
+
+  const buffer = context.startRendering();
+  rendered.set(carol.id, buffer);
+  // A failed render is retried next time rather than cached
+  buffer.catch(() => rendered.delete(carol.id));
+  return buffer;
+};
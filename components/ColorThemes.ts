@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { ColorThemeId } from '../types';
+
+/**
+ * Colour Themes
+ * One palette for the whole scene: foliage and headline particles, ornaments and fairy lights,
+ * gift wrapping, the star and the scene lights. The renderer never reads a theme directly; it reads
+ * the live colours of a ThemeFade, which cross-fades from one theme to the next.
+ */
+
+// Linear RGB as fed to the particle shaders; values above 1 make the bloom pass glow
+export type Rgb = [number, number, number];
+
+export interface GiftWrap {
+  box: string;
+  ribbon: string;
+}
+
+export interface ColorTheme {
+  label: string;
+  background: string;
+  foliage: { deep: Rgb, mid: Rgb, top: Rgb }; // Base to tip gradient
+  text: { base: Rgb, highlight: Rgb };
+  ornaments: { primary: string, secondary: string, accent: string, small: string };
+  lights: [string, string, string, string];
+  gifts: GiftWrap[];
+  star: { color: string, glow: string };
+  scene: { ambient: string, key: string, fill: string, accent: string, sparkles: string }; // Sparkles switch without fading
+}
+
+export const COLOR_THEMES: Record<ColorThemeId, ColorTheme> = {
+  // The original scene
+  midnight: {
+    label: 'Midnight Magic',
+    background: '#020005',
+    foliage: { deep: [0.6, 0.2, 1.8], mid: [0.4, 1.2, 3.0], top: [2.0, 1.8, 0.8] },
+    text: { base: [1.5, 0.9, 0.2], highlight: [2.0, 1.5, 0.8] },
+    ornaments: { primary: '#ffcc00', secondary: '#c0c0c0', accent: '#800080', small: '#ff0000' },
+    lights: ['#ff0055', '#00ff55', '#0055ff', '#ffaa00'],
+    gifts: [
+      { box: '#b30000', ribbon: '#ffbf00' },
+      { box: '#005500', ribbon: '#b30000' },
+      { box: '#f0f0f0', ribbon: '#b30000' },
+      { box: '#b30000', ribbon: '#f0f0f0' },
+      { box: '#002244', ribbon: '#c0c0c0' },
+      { box: '#ffbf00', ribbon: '#f0f0f0' },
+      { box: '#ffffff', ribbon: '#ff0000' },
+      { box: '#ff0000', ribbon: '#ffffff' },
+    ],
+    star: { color: '#ffddaa', glow: '#ffaa00' },
+    scene: { ambient: '#503060', key: '#ffaa55', fill: '#cc33ff', accent: '#ff3333', sparkles: '#ffd700' },
+  },
+  classic: {
+    label: 'Classic Red-Green',
+    background: '#020603',
+    foliage: { deep: [0.05, 0.5, 0.15], mid: [0.2, 1.4, 0.35], top: [1.8, 1.6, 0.7] },
+    text: { base: [1.6, 0.2, 0.15], highlight: [2.0, 1.4, 0.8] },
+    ornaments: { primary: '#d40000', secondary: '#ffcc33', accent: '#0b6623', small: '#ffffff' },
+    lights: ['#ff2020', '#20ff40', '#ffd040', '#ffffff'],
+    gifts: [
+      { box: '#b30000', ribbon: '#ffbf00' },
+      { box: '#0b6623', ribbon: '#b30000' },
+      { box: '#f0f0f0', ribbon: '#b30000' },
+      { box: '#b30000', ribbon: '#f0f0f0' },
+      { box: '#0b6623', ribbon: '#ffbf00' },
+      { box: '#ffbf00', ribbon: '#0b6623' },
+      { box: '#ffffff', ribbon: '#0b6623' },
+      { box: '#d40000', ribbon: '#0b6623' },
+    ],
+    star: { color: '#ffe7b0', glow: '#ffb000' },
+    scene: { ambient: '#3a2a20', key: '#ffb070', fill: '#33aa55', accent: '#ff3333', sparkles: '#ffd700' },
+  },
+  icy: {
+    label: 'Icy Blue',
+    background: '#01030a',
+    foliage: { deep: [0.1, 0.3, 1.2], mid: [0.5, 1.4, 2.6], top: [2.2, 2.4, 2.8] },
+    text: { base: [0.6, 1.4, 2.4], highlight: [2.2, 2.4, 2.8] },
+    ornaments: { primary: '#a8d8ff', secondary: '#e8f4ff', accent: '#4a7bd0', small: '#ffffff' },
+    lights: ['#9fd8ff', '#ffffff', '#6fa8ff', '#c8e8ff'],
+    gifts: [
+      { box: '#e8f4ff', ribbon: '#4a7bd0' },
+      { box: '#1a3a6a', ribbon: '#c0d8ff' },
+      { box: '#a8d8ff', ribbon: '#ffffff' },
+      { box: '#ffffff', ribbon: '#6fa8ff' },
+      { box: '#0d2244', ribbon: '#e8f4ff' },
+      { box: '#4a7bd0', ribbon: '#ffffff' },
+      { box: '#c0c0c0', ribbon: '#1a3a6a' },
+      { box: '#6fa8ff', ribbon: '#e8f4ff' },
+    ],
+    star: { color: '#e8f8ff', glow: '#88ccff' },
+    scene: { ambient: '#203050', key: '#bfe0ff', fill: '#3366ff', accent: '#66ccff', sparkles: '#cfefff' },
+  },
+  neon: {
+    label: 'Neon',
+    background: '#050010',
+    foliage: { deep: [1.8, 0.1, 1.2], mid: [0.1, 1.8, 1.6], top: [2.4, 2.2, 0.2] },
+    text: { base: [2.2, 0.2, 1.6], highlight: [0.4, 2.4, 2.2] },
+    ornaments: { primary: '#ff00cc', secondary: '#00ffee', accent: '#9900ff', small: '#ccff00' },
+    lights: ['#ff00aa', '#00ffcc', '#aa00ff', '#ffee00'],
+    gifts: [
+      { box: '#ff00cc', ribbon: '#00ffee' },
+      { box: '#9900ff', ribbon: '#ccff00' },
+      { box: '#00ffee', ribbon: '#ff00cc' },
+      { box: '#111111', ribbon: '#ff00aa' },
+      { box: '#ccff00', ribbon: '#9900ff' },
+      { box: '#111111', ribbon: '#00ffcc' },
+      { box: '#ff6600', ribbon: '#00ccff' },
+      { box: '#00ccff', ribbon: '#ff6600' },
+    ],
+    star: { color: '#ffffff', glow: '#ff00ff' },
+    scene: { ambient: '#300040', key: '#ff66ff', fill: '#00ffff', accent: '#ff0088', sparkles: '#ff66ff' },
+  },
+  gold: {
+    label: 'Gold & White',
+    background: '#050402',
+    foliage: { deep: [1.2, 0.7, 0.2], mid: [1.8, 1.4, 0.6], top: [2.4, 2.3, 2.0] },
+    text: { base: [1.8, 1.3, 0.5], highlight: [2.4, 2.3, 2.0] },
+    ornaments: { primary: '#ffcc00', secondary: '#f5f5f0', accent: '#d4a017', small: '#ffffff' },
+    lights: ['#fff4d0', '#ffd700', '#ffffff', '#ffb84d'],
+    gifts: [
+      { box: '#f5f5f0', ribbon: '#d4a017' },
+      { box: '#d4a017', ribbon: '#ffffff' },
+      { box: '#ffffff', ribbon: '#ffcc00' },
+      { box: '#ffcc00', ribbon: '#f5f5f0' },
+      { box: '#c9a227', ribbon: '#ffffff' },
+      { box: '#f0e6d0', ribbon: '#b8860b' },
+      { box: '#ffffff', ribbon: '#c0c0c0' },
+      { box: '#b8860b', ribbon: '#f5f5f0' },
+    ],
+    star: { color: '#fff8e0', glow: '#ffcc44' },
+    scene: { ambient: '#403020', key: '#ffe0a0', fill: '#ffcc66', accent: '#fff0d0', sparkles: '#ffe08a' },
+  },
+};
+
+export const COLOR_THEME_IDS = Object.keys(COLOR_THEMES) as ColorThemeId[];
+export const DEFAULT_COLOR_THEME: ColorThemeId = 'midnight';
+
+// Each gift keeps a wrap slot; themes with fewer wraps repeat them across the slots
+export const GIFT_WRAP_SLOTS = 8;
+
+const THEME_FADE_SECONDS = 1.5;
+
+/**
+ * A theme as THREE.Colors. The live instance is shared by reference: shader uniforms and
+ * ornament materials hold these very objects, so fading them needs no per-layer work.
+ * `version` increases whenever they change, for consumers that copy colours out (instance colours, lights).
+ */
+export interface ThemeColors {
+  background: THREE.Color;
+  foliage: { deep: THREE.Color, mid: THREE.Color, top: THREE.Color };
+  text: { base: THREE.Color, highlight: THREE.Color };
+  ornaments: { primary: THREE.Color, secondary: THREE.Color, accent: THREE.Color, small: THREE.Color };
+  lights: THREE.Color[];
+  gifts: { box: THREE.Color, ribbon: THREE.Color }[];
+  star: { color: THREE.Color, glow: THREE.Color };
+  scene: { ambient: THREE.Color, key: THREE.Color, fill: THREE.Color, accent: THREE.Color };
+  version: number;
+}
+
+const linear = (rgb: Rgb) => new THREE.Color().setRGB(rgb[0], rgb[1], rgb[2], THREE.LinearSRGBColorSpace);
+
+const toThemeColors = (theme: ColorTheme): ThemeColors => ({
+  background: new THREE.Color(theme.background),
+  foliage: { deep: linear(theme.foliage.deep), mid: linear(theme.foliage.mid), top: linear(theme.foliage.top) },
+  text: { base: linear(theme.text.base), highlight: linear(theme.text.highlight) },
+  ornaments: {
+    primary: new THREE.Color(theme.ornaments.primary),
+    secondary: new THREE.Color(theme.ornaments.secondary),
+    accent: new THREE.Color(theme.ornaments.accent),
+    small: new THREE.Color(theme.ornaments.small),
+  },
+  lights: theme.lights.map((c) => new THREE.Color(c)),
+  gifts: Array.from({ length: GIFT_WRAP_SLOTS }, (_, i) => {
+    const wrap = theme.gifts[i % theme.gifts.length];
+    return { box: new THREE.Color(wrap.box), ribbon: new THREE.Color(wrap.ribbon) };
+  }),
+  star: { color: new THREE.Color(theme.star.color), glow: new THREE.Color(theme.star.glow) },
+  scene: {
+    ambient: new THREE.Color(theme.scene.ambient),
+    key: new THREE.Color(theme.scene.key),
+    fill: new THREE.Color(theme.scene.fill),
+    accent: new THREE.Color(theme.scene.accent),
+  },
+  version: 0,
+});
+
+// Every colour in a fixed order, so two ThemeColors can be blended slot by slot
+const listColors = (colors: ThemeColors): THREE.Color[] => [
+  colors.background,
+  ...Object.values(colors.foliage),
+  ...Object.values(colors.text),
+  ...Object.values(colors.ornaments),
+  ...colors.lights,
+  ...colors.gifts.flatMap((wrap) => [wrap.box, wrap.ribbon]),
+  ...Object.values(colors.star),
+  ...Object.values(colors.scene),
+];
+
+export interface ThemeFade {
+  colors: ThemeColors; // Live colours, shared by reference
+  setTheme: (theme: ColorTheme) => void;
+  /** Advances the cross-fade; returns whether anything changed. */
+  update: (delta: number) => boolean;
+}
+
+export const createThemeFade = (initial: ColorTheme): ThemeFade => {
+  const colors = toThemeColors(initial);
+  const live = listColors(colors);
+  let from = live.map((c) => c.clone());
+  let to = from;
+  let progress = 1;
+
+  const setTheme = (theme: ColorTheme) => {
+    // Start from what's on screen, so switching mid-fade doesn't jump
+    from = live.map((c) => c.clone());
+    to = listColors(toThemeColors(theme));
+    progress = 0;
+  };
+
+  const update = (delta: number) => {
+    if (progress >= 1) return false;
+    progress = Math.min(1, progress + delta / THEME_FADE_SECONDS);
+    const blend = progress * progress * (3 - 2 * progress);
+    live.forEach((c, i) => c.copy(from[i]).lerp(to[i], blend));
+    colors.version++;
+    return true;
+  };
+
+  return { colors, setTheme, update };
+};
@@ -0,0 +1,177 @@
+import { useTreeStore } from '../store';
+import { GestureType, InputSource } from '../types';
+
+/**
+ * Fallback Input
+ * Feeds the same hand state as the webcam (setHandPosition) from keyboard, mouse and touch,
+ * for when the camera is denied or vision fails to load.
+ *
+ * Keyboard: Space toggles scatter, arrows / WASD orbit, +/- zoom, Q/E cycle cards, R recenters.
+ * Mouse:    drag to orbit, wheel to zoom, press and hold to toggle scatter.
+ * Touch:    one finger drags to orbit, two fingers spread to scatter and pinch to gather.
+ */
+
+// Neutral pose: matches the camera's default position in GestureController
+const HOME = { x: 0.5, y: 0.67, z: 0.25 };
+const Z_MIN = 0.05;
+const Z_MAX = 0.35;
+
+const KEY_STEP = 0.04;
+const ZOOM_STEP = 0.02;
+const WHEEL_ZOOM = 0.0002; // Per wheel delta pixel
+const HOLD_MS = 500;
+const HOLD_SLOP = 8; // px a held pointer may drift before it counts as a drag
+
+// Two-finger spread/pinch, relative to the distance when the second finger landed
+const SPREAD_RATIO = 1.3;
+const PINCH_RATIO = 0.75;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export interface FallbackInput {
+  start: (source: InputSource) => void;
+  stop: () => void;
+}
+
+export const createFallbackInput = (): FallbackInput => {
+  let x = HOME.x;
+  let y = HOME.y;
+  let z = HOME.z;
+  let isOpen = false;
+  let nextGestureId = 1;
+
+  const pointers = new Map<number, { x: number, y: number }>();
+  let pinchStart = 0;
+  let holdTimer = 0;
+  let holdOrigin: { x: number, y: number } | null = null;
+
+  const publish = (source: InputSource) => {
+    const store = useTreeStore.getState();
+    if (store.inputSource !== source) store.setInputSource(source);
+    store.setHandPosition(x, y, z, true, isOpen);
+  };
+
+  const emit = (type: GestureType, source: InputSource) => {
+    publish(source);
+    useTreeStore.getState().emitGesture({ id: nextGestureId++, type, confidence: 1, x, y, timestamp: performance.now() });
+  };
+
+  const move = (dx: number, dy: number) => {
+    x = clamp(x + dx, 0, 1);
+    y = clamp(y + dy, 0, 1);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isTextField(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+
+    switch (e.key) {
+      case ' ': if (!e.repeat) isOpen = !isOpen; break;
+      case 'ArrowLeft': case 'a': case 'A': move(-KEY_STEP, 0); break;
+      case 'ArrowRight': case 'd': case 'D': move(KEY_STEP, 0); break;
+      case 'ArrowUp': case 'w': case 'W': move(0, -KEY_STEP); break;
+      case 'ArrowDown': case 's': case 'S': move(0, KEY_STEP); break;
+      case '+': case '=': z = clamp(z + ZOOM_STEP, Z_MIN, Z_MAX); break;
+      case '-': case '_': z = clamp(z - ZOOM_STEP, Z_MIN, Z_MAX); break;
+      case 'r': case 'R': ({ x, y, z } = HOME); break;
+      case 'q': case 'Q': emit('swipe-left', 'keyboard'); e.preventDefault(); return;
+      case 'e': case 'E': emit('swipe-right', 'keyboard'); e.preventDefault(); return;
+      default: return;
+    }
+    e.preventDefault();
+    publish('keyboard');
+  };
+
+  const cancelHold = () => {
+    window.clearTimeout(holdTimer);
+    holdOrigin = null;
+  };
+
+  const sourceOf = (e: PointerEvent): InputSource => (e.pointerType === 'touch' ? 'touch' : 'mouse');
+
+  const pinchDistance = () => {
+    const [a, b] = Array.from(pointers.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    // Only gestures on the 3D scene; UI panels keep their own pointer handling
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size === 1) {
+      // Press and hold without moving toggles scatter (a quick click still focuses cards)
+      const source = sourceOf(e);
+      holdOrigin = { x: e.clientX, y: e.clientY };
+      holdTimer = window.setTimeout(() => {
+        holdOrigin = null;
+        isOpen = !isOpen;
+        publish(source);
+      }, HOLD_MS);
+    } else if (pointers.size === 2) {
+      cancelHold();
+      pinchStart = pinchDistance();
+    }
+    publish(sourceOf(e));
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (holdOrigin && Math.hypot(e.clientX - holdOrigin.x, e.clientY - holdOrigin.y) > HOLD_SLOP) cancelHold();
+
+    if (pointers.size === 1) {
+      // Drag to orbit, grabbing the scene like OrbitControls: a full-width drag sweeps the whole azimuth range
+      move((previous.x - e.clientX) / window.innerWidth, (previous.y - e.clientY) / window.innerHeight);
+    } else if (pointers.size === 2 && pinchStart > 0) {
+      const ratio = pinchDistance() / pinchStart;
+      if (!isOpen && ratio > SPREAD_RATIO) isOpen = true;
+      else if (isOpen && ratio < PINCH_RATIO) isOpen = false;
+      else return;
+      pinchStart = pinchDistance(); // Re-arm from here so the next change needs a fresh spread/pinch
+    } else {
+      return;
+    }
+    publish(sourceOf(e));
+  };
+
+  const onPointerUp = (e: PointerEvent) => {
+    if (!pointers.delete(e.pointerId)) return;
+    cancelHold();
+    if (pointers.size < 2) pinchStart = 0;
+  };
+
+  const onWheel = (e: WheelEvent) => {
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    z = clamp(z - e.deltaY * WHEEL_ZOOM, Z_MIN, Z_MAX);
+    publish('mouse');
+  };
+
+  const start = (source: InputSource) => {
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    window.addEventListener('wheel', onWheel, { passive: true });
+    // Take over the camera straight away so OrbitControls doesn't fight the fallback
+    publish(source);
+  };
+
+  const stop = () => {
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('pointerdown', onPointerDown);
+    window.removeEventListener('pointermove', onPointerMove);
+    window.removeEventListener('pointerup', onPointerUp);
+    window.removeEventListener('pointercancel', onPointerUp);
+    window.removeEventListener('wheel', onWheel);
+    cancelHold();
+    pointers.clear();
+  };
+
+  return { start, stop };
+};
@@ -0,0 +1,262 @@
+import * as THREE from 'three';
+import { Font } from 'three-stdlib';
+import { FormationId, FormationSettings } from '../types';
+import { sampleTextPoints } from './TextSampler';
+import { createRandom, RandomSource } from './Random';
+
+/**
+ * Scatter Formations
+ * What the tree breaks up into when the hand opens. Every item keeps three random numbers (its seed)
+ * for life, and a formation maps a seed to a point, so switching formation only refills the layers'
+ * scatter positions: nothing is remounted, and a prefix of any layer still covers the whole shape.
+ */
+
+export const FORMATIONS: { id: FormationId, label: string }[] = [
+  { id: 'sphere', label: 'Cloud' },
+  { id: 'galaxy', label: 'Galaxy Spiral' },
+  { id: 'snowfall', label: 'Snowfall' },
+  { id: 'heart', label: 'Heart' },
+  { id: 'ring', label: 'Ring' },
+  { id: 'helix', label: 'Double Helix' },
+  { id: 'text', label: 'Word' },
+  { id: 'image', label: 'Picture Silhouette' },
+];
+
+export const DEFAULT_FORMATION: FormationSettings = {
+  id: 'sphere',
+  cycle: false,
+  text: 'JOY',
+  silhouette: [],
+};
+
+// Half-extent of the shaped formations, in world units (the sphere keeps each layer's own radius)
+export const FORMATION_SIZE = 7;
+
+// Snowfall: height of the column the flakes fall through before wrapping to the top, and their speed
+export const SNOWFALL_HEIGHT = FORMATION_SIZE * 2;
+export const SNOWFALL_SPEED = 0.8;
+
+// Points kept from a text or picture outline; layers pick from them by seed
+const OUTLINE_POINTS = 1500;
+// Pictures are scanned at this size before sampling
+const SILHOUETTE_SCAN_PX = 128;
+
+const TWO_PI = Math.PI * 2;
+const GALAXY_ARMS = 3;
+const GALAXY_TILT = 1.0; // Towards the camera, so the arms read from the front
+const RING_TILT = 0.35;
+const HELIX_TURNS = 3;
+
+// Flat formations (heart, word, picture) only read from the front
+const FLAT_FORMATIONS: FormationId[] = ['heart', 'text', 'image'];
+
+/**
+ * A formation ready to place items in. `points` holds the outline samples of 'text' and 'image'
+ * (x/y pairs in -1..1); without any, those formations fall back to the sphere.
+ */
+export interface Formation {
+  id: FormationId;
+  points: Float32Array | null;
+  faceCamera: boolean;
+}
+
+// Centres 2D points on the origin and scales them so the longest side spans -1..1
+const normalizeOutline = (xy: Float32Array) => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (let i = 0; i < xy.length; i += 2) {
+    minX = Math.min(minX, xy[i]);
+    maxX = Math.max(maxX, xy[i]);
+    minY = Math.min(minY, xy[i + 1]);
+    maxY = Math.max(maxY, xy[i + 1]);
+  }
+  const scale = 2 / Math.max(maxX - minX, maxY - minY, 1e-6);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  for (let i = 0; i < xy.length; i += 2) {
+    xy[i] = (xy[i] - cx) * scale;
+    xy[i + 1] = (xy[i + 1] - cy) * scale;
+  }
+  return xy;
+};
+
+const sampleTextOutline = (text: string, font: Font, seed: number) => {
+  const positions = sampleTextPoints(text, font, '', 1, OUTLINE_POINTS, Infinity, createRandom(seed));
+  if (positions.length === 0) return null;
+  const xy = new Float32Array(OUTLINE_POINTS * 2);
+  for (let i = 0; i < OUTLINE_POINTS; i++) {
+    xy[i * 2] = positions[i * 3];
+    xy[i * 2 + 1] = positions[i * 3 + 1];
+  }
+  return normalizeOutline(xy);
+};
+
+/**
+ * Turns the user's formation settings into the formation to scatter into. `font` is the headline
+ * typeface, used to spell out the word, and `seed` fixes where on the letters the points fall.
+ */
+export const resolveFormation = (id: FormationId, settings: FormationSettings, font: Font, seed: number): Formation => {
+  let points: Float32Array | null = null;
+  if (id === 'text' && settings.text.trim()) points = sampleTextOutline(settings.text.trim(), font, seed);
+  if (id === 'image' && settings.silhouette.length >= 2) points = new Float32Array(settings.silhouette);
+  return { id, points, faceCamera: FLAT_FORMATIONS.includes(id) };
+};
+
+// Whether a formation has what it needs to be shown
+const isAvailable = (id: FormationId, settings: FormationSettings) => {
+  if (id === 'text') return settings.text.trim().length > 0;
+  if (id === 'image') return settings.silhouette.length >= 2;
+  return true;
+};
+
+/**
+ * The formation after `id` in the library, skipping any that aren't set up yet.
+ */
+export const nextFormation = (id: FormationId, settings: FormationSettings): FormationId => {
+  const start = FORMATIONS.findIndex((f) => f.id === id);
+  for (let step = 1; step <= FORMATIONS.length; step++) {
+    const next = FORMATIONS[(start + step) % FORMATIONS.length].id;
+    if (isAvailable(next, settings)) return next;
+  }
+  return id;
+};
+
+/**
+ * Where the item with seed (a, b, c) (each uniform in 0..1) sits in `formation`.
+ * `sphereRadius` is the layer's own spread for the plain sphere.
+ */
+export const getFormationPoint = (
+  formation: Formation,
+  a: number,
+  b: number,
+  c: number,
+  sphereRadius: number,
+  out = new THREE.Vector3()
+) => {
+  const size = FORMATION_SIZE;
+  switch (formation.id) {
+    case 'galaxy': {
+      // Arms wind out from a bright core; the disc thins towards the rim
+      const armPos = a * GALAXY_ARMS;
+      const arm = Math.floor(armPos);
+      const dist = Math.pow(armPos - arm, 0.7);
+      const r = (0.05 + 0.95 * dist) * size * 1.2;
+      const angle = (arm / GALAXY_ARMS) * TWO_PI + dist * 2.6 + (b - 0.5) * 0.7 * (1 - dist * 0.5);
+      const y = (c - 0.5) * size * 0.15 * (1 - dist * 0.7);
+      const z = r * Math.sin(angle);
+      return out.set(r * Math.cos(angle), y * Math.cos(GALAXY_TILT) - z * Math.sin(GALAXY_TILT), y * Math.sin(GALAXY_TILT) + z * Math.cos(GALAXY_TILT));
+    }
+    case 'snowfall':
+      // A wide, shallow column; the shaders make the foliage and ornaments drift down through it
+      return out.set((a * 2 - 1) * size * 1.3, (b - 0.5) * SNOWFALL_HEIGHT, (c * 2 - 1) * size * 0.8);
+    case 'heart': {
+      // The classic parametric heart curve, filled evenly and puffed out in the middle
+      const t = a * TWO_PI;
+      const hx = 16 * Math.pow(Math.sin(t), 3) / 17;
+      const hy = (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) / 17;
+      const fill = Math.sqrt(b);
+      const depth = Math.sqrt(Math.max(0, 1 - fill * fill)) * size * 0.25;
+      return out.set(hx * fill * size, (hy * fill + 0.15) * size, (c * 2 - 1) * depth);
+    }
+    case 'ring': {
+      // A thick hoop around the tree, tipped towards the camera
+      const angle = a * TWO_PI;
+      const tube = b * TWO_PI;
+      const m = size * 0.12 * Math.sqrt(c);
+      const r = size + m * Math.cos(tube);
+      const y = m * Math.sin(tube);
+      const z = r * Math.sin(angle);
+      return out.set(r * Math.cos(angle), y * Math.cos(RING_TILT) - z * Math.sin(RING_TILT), y * Math.sin(RING_TILT) + z * Math.cos(RING_TILT));
+    }
+    case 'helix': {
+      // Two strands half a turn apart
+      const strand = a < 0.5 ? 0 : 1;
+      const along = a * 2 - strand;
+      const angle = along * HELIX_TURNS * TWO_PI + strand * Math.PI;
+      const r = size * (0.35 + (b - 0.5) * 0.1);
+      return out.set(r * Math.cos(angle), (along - 0.5) * size * 2 + (c - 0.5) * size * 0.08, r * Math.sin(angle));
+    }
+    case 'text':
+    case 'image': {
+      const points = formation.points;
+      if (points && points.length >= 2) {
+        const k = Math.min(Math.floor(a * (points.length / 2)), points.length / 2 - 1) * 2;
+        return out.set(
+          (points[k] + (b - 0.5) * 0.02) * size * 1.2,
+          (points[k + 1] + (c - 0.5) * 0.02) * size * 1.2,
+          (b + c - 1) * size * 0.06
+        );
+      }
+      break;
+    }
+    default:
+      break;
+  }
+
+  // Sphere: a solid volume, evenly filled
+  const theta = a * TWO_PI;
+  const phi = Math.acos(2 * b - 1);
+  const r = sphereRadius * Math.cbrt(c);
+  return out.set(r * Math.sin(phi) * Math.cos(theta), r * Math.sin(phi) * Math.sin(theta), r * Math.cos(phi));
+};
+
+/**
+ * Fills `out` with the point for each seed triple in `seeds`.
+ */
+export const fillFormation = (formation: Formation, seeds: Float32Array, sphereRadius: number, out: Float32Array) => {
+  const point = new THREE.Vector3();
+  for (let i = 0; i < seeds.length; i += 3) {
+    getFormationPoint(formation, seeds[i], seeds[i + 1], seeds[i + 2], sphereRadius, point).toArray(out, i);
+  }
+  return out;
+};
+
+/**
+ * Scans a picture for its silhouette and samples points inside it, as x/y pairs in -1..1
+ * (rounded, so they store compactly). Transparent images use their alpha; otherwise the darker
+ * part is the shape, or the lighter part when most of the picture is dark. `random` picks the
+ * points, so the same picture and seed always give the same silhouette.
+ */
+export const sampleSilhouette = async (file: Blob, random: RandomSource): Promise<number[]> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = SILHOUETTE_SCAN_PX / Math.max(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D is unavailable');
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let hasTransparency = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 128) {
+      hasTransparency = true;
+      break;
+    }
+  }
+
+  const dark: number[] = [];
+  const light: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      if (data[p + 3] < 128) continue;
+      const luminance = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) / 255;
+      (hasTransparency || luminance < 0.5 ? dark : light).push(x, y);
+    }
+  }
+  const filled = hasTransparency || dark.length <= light.length ? dark : light;
+  if (filled.length === 0) throw new Error('No shape found in the picture');
+
+  const xy = new Float32Array(OUTLINE_POINTS * 2);
+  for (let i = 0; i < OUTLINE_POINTS; i++) {
+    const p = Math.floor(random() * (filled.length / 2)) * 2;
+    xy[i * 2] = filled[p] + random();
+    xy[i * 2 + 1] = height - filled[p + 1] - random(); // Image rows run downwards
+  }
+  return Array.from(normalizeOutline(xy), (v) => Math.round(v * 1000) / 1000);
+};
@@ -0,0 +1,164 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureEvent, GestureType } from '../types';
+
+/**
+ * Gesture Classifier
+ * Scores each static pose per frame (0..1 fuzzy confidence), then applies hysteresis so a pose
+ * must score high for a short hold before it is "entered" and drop well below before it is left.
+ * Entering a pose emits one discrete event; swipes are detected from palm motion instead of pose.
+ *
+ * Landmarks:
+ * 0: Wrist, 4: Thumb tip, 2: Thumb MCP, 5: Index MCP, 9: Middle MCP
+ * Tips: 8 (Index), 12 (Middle), 16 (Ring), 20 (Pinky)
+ * PIPs: 6, 10, 14, 18
+ */
+
+type StaticGesture = Exclude<GestureType, 'fist-hold' | 'swipe-left' | 'swipe-right'>;
+
+const ENTER_CONFIDENCE = 0.7;
+const EXIT_CONFIDENCE = 0.4;
+const ENTER_HOLD_MS = 120; // Pose must be stable this long before it counts
+const FIST_HOLD_MS = 800;
+
+const SWIPE_WINDOW_MS = 300;
+const SWIPE_DISTANCE = 0.25; // Fraction of frame width
+const SWIPE_COOLDOWN_MS = 600;
+
+const dist = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// 1 = finger straight out from the wrist, 0 = curled into the palm
+const extension = (landmarks: NormalizedLandmark[], tip: number, pip: number) => {
+  const wrist = landmarks[0];
+  return smoothstep(0.9, 1.3, dist(wrist, landmarks[tip]) / Math.max(dist(wrist, landmarks[pip]), 1e-6));
+};
+
+/**
+ * Per-pose confidence for a single frame. Fuzzy AND = min of the feature scores.
+ */
+export const scoreGestures = (landmarks: NormalizedLandmark[]): Record<StaticGesture, number> => {
+  const handSize = Math.max(dist(landmarks[0], landmarks[9]), 1e-6);
+
+  const index = extension(landmarks, 8, 6);
+  const middle = extension(landmarks, 12, 10);
+  const ring = extension(landmarks, 16, 14);
+  const pinky = extension(landmarks, 20, 18);
+
+  const thumbOut = smoothstep(0.35, 0.7, dist(landmarks[4], landmarks[5]) / handSize);
+  const thumbUp = smoothstep(0.3, 0.7, (landmarks[2].y - landmarks[4].y) / handSize);
+  const pinchClose = 1 - smoothstep(0.15, 0.35, dist(landmarks[4], landmarks[8]) / handSize);
+
+  const fist = Math.min(1 - index, 1 - middle, 1 - ring, 1 - pinky, 1 - thumbUp);
+
+  return {
+    pinch: Math.min(pinchClose, 1 - fist),
+    point: Math.min(index, 1 - middle, 1 - ring, 1 - pinky),
+    'thumbs-up': Math.min(thumbOut, thumbUp, 1 - index, 1 - middle, 1 - ring, 1 - pinky),
+    victory: Math.min(index, middle, 1 - ring, 1 - pinky),
+    fist,
+  };
+};
+
+export interface GestureClassifier {
+  /** Feed one frame; returns the events that fired on it. `x`/`y` are mirrored like handX/handY. */
+  update: (landmarks: NormalizedLandmark[], timestamp: number) => GestureEvent[];
+  /** Call when the hand is lost so stale poses and motion don't carry over. */
+  reset: () => void;
+  /** The pose currently held (after hysteresis), if any. */
+  active: () => { type: GestureType | null, confidence: number };
+}
+
+export const createGestureClassifier = (): GestureClassifier => {
+  let nextId = 1;
+  let current: StaticGesture | null = null;
+  let currentConfidence = 0;
+  let candidate: StaticGesture | null = null;
+  let candidateSince = 0;
+  let fistHoldFired = false;
+  let currentSince = 0;
+  let lastSwipeAt = -Infinity;
+  const trail: { x: number, y: number, t: number }[] = [];
+
+  const makeEvent = (type: GestureType, confidence: number, x: number, y: number, timestamp: number): GestureEvent => ({
+    id: nextId++, type, confidence, x, y, timestamp,
+  });
+
+  const reset = () => {
+    current = null;
+    currentConfidence = 0;
+    candidate = null;
+    fistHoldFired = false;
+    trail.length = 0;
+  };
+
+  const update = (landmarks: NormalizedLandmark[], timestamp: number) => {
+    const events: GestureEvent[] = [];
+    const scores = scoreGestures(landmarks);
+
+    // Pinch events report where the fingers meet, everything else the palm center (Middle MCP)
+    const anchor = landmarks[9];
+    const x = 1 - anchor.x;
+    const y = anchor.y;
+
+    // 1. Leave the current pose only once it has clearly dropped (hysteresis)
+    if (current && scores[current] < EXIT_CONFIDENCE) {
+      current = null;
+      fistHoldFired = false;
+    }
+
+    // 2. Enter the strongest pose once it has been above the threshold long enough
+    if (!current) {
+      let best: StaticGesture | null = null;
+      for (const type of Object.keys(scores) as StaticGesture[]) {
+        if (scores[type] >= ENTER_CONFIDENCE && (!best || scores[type] > scores[best])) best = type;
+      }
+      if (best !== candidate) {
+        candidate = best;
+        candidateSince = timestamp;
+      } else if (best && timestamp - candidateSince >= ENTER_HOLD_MS) {
+        current = best;
+        currentSince = timestamp;
+        candidate = null;
+        if (best === 'pinch') {
+          const px = 1 - (landmarks[4].x + landmarks[8].x) / 2;
+          const py = (landmarks[4].y + landmarks[8].y) / 2;
+          events.push(makeEvent('pinch', scores.pinch, px, py, timestamp));
+        } else {
+          events.push(makeEvent(best, scores[best], x, y, timestamp));
+        }
+      }
+    }
+    currentConfidence = current ? scores[current] : 0;
+
+    // 3. Fist held long enough fires its own event, once per hold
+    if (current === 'fist' && !fistHoldFired && timestamp - currentSince >= FIST_HOLD_MS) {
+      fistHoldFired = true;
+      events.push(makeEvent('fist-hold', scores.fist, x, y, timestamp));
+    }
+
+    // 4. Swipes: a fast, mostly horizontal palm movement within a short window
+    trail.push({ x, y, t: timestamp });
+    while (trail.length > 0 && timestamp - trail[0].t > SWIPE_WINDOW_MS) trail.shift();
+    const start = trail[0];
+    const dx = x - start.x;
+    const dy = y - start.y;
+    if (timestamp - lastSwipeAt > SWIPE_COOLDOWN_MS && Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dy) < Math.abs(dx) * 0.5) {
+      lastSwipeAt = timestamp;
+      trail.length = 0;
+      const confidence = Math.min(1, Math.abs(dx) / (SWIPE_DISTANCE * 1.6));
+      events.push(makeEvent(dx > 0 ? 'swipe-right' : 'swipe-left', confidence, x, y, timestamp));
+    }
+
+    return events;
+  };
+
+  return {
+    update,
+    reset,
+    active: () => ({ type: current, confidence: currentConfidence }),
+  };
+};
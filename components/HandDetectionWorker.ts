@@ -0,0 +1,78 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { loadHandLandmarker, VISION_WASM_PATH, VisionAsset, VisionSetupError } from './VisionAssets';
+import type { HandDetections } from './HandPipeline';
+
+/**
+ * Hand Detection Worker
+ * Runs the HandLandmarker off the main thread so inference doesn't compete with the render loop.
+ * Frames arrive as transferred ImageBitmaps / VideoFrames and are closed here once detected.
+ */
+export type DetectionRequest =
+  | { type: 'init', numHands: number }
+  | { type: 'detect', id: number, frame: ImageBitmap | VideoFrame, timestamp: number };
+
+export type DetectionResponse =
+  | { type: 'ready' }
+  | { type: 'error', message: string, asset?: VisionAsset }
+  | { type: 'result', id: number, detections: HandDetections };
+
+declare global {
+  interface Window {
+    // Called by MediaPipe to load a classic script where importScripts isn't available
+    import?: (url: string) => Promise<void>;
+    // Defined by the wasm loader script
+    ModuleFactory?: unknown;
+  }
+}
+
+// MediaPipe loads its wasm glue as a classic script that declares a global `ModuleFactory`.
+// Module workers have no importScripts, and importing the script as-is would keep that
+// declaration module-scoped, so it is imported with the factory exported, then made global.
+// Only scripts from the vision runtime directory are loaded this way.
+const RUNTIME_ROOT = new URL(`${VISION_WASM_PATH}/`, self.location.href).href;
+
+self.import = async (url: string) => {
+  const resolved = new URL(url, self.location.href).href;
+  if (!resolved.startsWith(RUNTIME_ROOT)) throw new Error(`Refusing to load a script from outside the vision runtime: ${resolved}`);
+  const response = await fetch(resolved);
+  if (!response.ok) throw new Error(`Could not load ${resolved} (HTTP ${response.status})`);
+  const script = URL.createObjectURL(new Blob([`${await response.text()}\nexport default ModuleFactory;\n`], { type: 'text/javascript' }));
+  try {
+    self.ModuleFactory = (await import(/* @vite-ignore */ script)).default;
+  } finally {
+    URL.revokeObjectURL(script);
+  }
+};
+
+let landmarker: HandLandmarker | null = null;
+
+const reply = (message: DetectionResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<DetectionRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    try {
+      landmarker = await loadHandLandmarker(request.numHands);
+      reply({ type: 'ready' });
+    } catch (error) {
+      reply({
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+        asset: error instanceof VisionSetupError ? error.asset : undefined,
+      });
+    }
+    return;
+  }
+
+  const { id, frame, timestamp } = request;
+  try {
+    const result = landmarker?.detectForVideo(frame, timestamp);
+    reply({ type: 'result', id, detections: { landmarks: result?.landmarks ?? [], handedness: result?.handedness ?? [] } });
+  } catch (error) {
+    console.error("Hand detection failed in worker:", error);
+    reply({ type: 'result', id, detections: { landmarks: [], handedness: [] } });
+  } finally {
+    frame.close();
+  }
+};
@@ -0,0 +1,104 @@
+import { ImageSource } from '@mediapipe/tasks-vision';
+import { loadHandLandmarker, VisionSetupError } from './VisionAssets';
+import type { HandDetections } from './HandPipeline';
+import type { DetectionRequest, DetectionResponse } from './HandDetectionWorker';
+
+/**
+ * Hand Detector
+ * Runs hand landmark detection in a Web Worker when the browser can hand frames over
+ * (ImageBitmap / VideoFrame transfer), otherwise on the main thread as before.
+ * Either way, callers just await detections for a frame.
+ */
+export interface HandDetector {
+  mode: 'worker' | 'main-thread';
+  detect: (frame: ImageSource, timestamp: number) => Promise<HandDetections>;
+  close: () => void;
+}
+
+const canUseWorker = () => typeof Worker !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// Zero-copy where supported: a VideoFrame wraps the current video frame, an ImageBitmap copies it once
+const captureFrame = async (frame: ImageSource): Promise<ImageBitmap | VideoFrame> => {
+  if (typeof VideoFrame !== 'undefined' && frame instanceof HTMLVideoElement) {
+    try {
+      return new VideoFrame(frame);
+    } catch {
+      // Some browsers refuse certain video elements; fall through to a bitmap copy
+    }
+  }
+  return createImageBitmap(frame as ImageBitmapSource);
+};
+
+const createWorkerDetector = (numHands: number): Promise<HandDetector> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('./HandDetectionWorker.ts', import.meta.url), { type: 'module' });
+  let nextId = 0;
+  let isClosed = false;
+  const pending = new Map<number, (detections: HandDetections) => void>();
+
+  // Anything still in flight resolves empty so awaiting loops can wind down
+  const shutdown = () => {
+    isClosed = true;
+    worker.terminate();
+    pending.forEach((resolveDetect) => resolveDetect({ landmarks: [], handedness: [] }));
+    pending.clear();
+  };
+
+  const detector: HandDetector = {
+    mode: 'worker',
+    detect: async (frame, timestamp) => {
+      if (isClosed) return { landmarks: [], handedness: [] };
+      const captured = await captureFrame(frame);
+      const id = nextId++;
+      return new Promise((resolveDetect) => {
+        pending.set(id, resolveDetect);
+        worker.postMessage({ type: 'detect', id, frame: captured, timestamp } as DetectionRequest, [captured]);
+      });
+    },
+    close: shutdown,
+  };
+
+  worker.onmessage = (event: MessageEvent<DetectionResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') {
+      resolve(detector);
+    } else if (message.type === 'error') {
+      shutdown();
+      reject(message.asset ? new VisionSetupError(message.asset, message.message) : new Error(message.message));
+    } else {
+      pending.get(message.id)?.(message.detections);
+      pending.delete(message.id);
+    }
+  };
+  worker.onerror = (event) => {
+    console.error("Hand detection worker crashed:", event.message);
+    shutdown();
+    reject(new Error(`Detection worker failed: ${event.message}`));
+  };
+
+  worker.postMessage({ type: 'init', numHands } as DetectionRequest);
+});
+
+const createMainThreadDetector = async (numHands: number): Promise<HandDetector> => {
+  const landmarker = await loadHandLandmarker(numHands);
+  return {
+    mode: 'main-thread',
+    detect: async (frame, timestamp) => landmarker.detectForVideo(frame, timestamp),
+    close: () => landmarker.close(),
+  };
+};
+
+/**
+ * Prefers the worker. Missing assets fail the same way on either thread, so those are reported
+ * straight away; anything else (no worker support, GPU unavailable off-thread) retries on the main thread.
+ */
+export const createHandDetector = async (numHands: number): Promise<HandDetector> => {
+  if (canUseWorker()) {
+    try {
+      return await createWorkerDetector(numHands);
+    } catch (error) {
+      if (error instanceof VisionSetupError && (error.asset === 'wasm' || error.asset === 'model')) throw error;
+      console.warn("Hand detection worker unavailable, detecting on the main thread:", error);
+    }
+  }
+  return createMainThreadDetector(numHands);
+};
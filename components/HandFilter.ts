@@ -0,0 +1,139 @@
+import { HandFilterSettings, HandState } from '../types';
+
+/**
+ * Hand Filter
+ * Smooths the per-frame hand measurements before they reach the store:
+ * - Position and size go through a One Euro filter (heavy smoothing at rest, little lag when moving fast).
+ * - Open/closed is debounced: a new state must persist for a hold time before it is accepted,
+ *   so a half-open hand doesn't flicker the tree between scattered and formed.
+ * See Casiez et al., "1€ Filter: A Simple Speed-based Low-pass Filter for Noisy Input" (CHI 2012).
+ */
+
+export const DEFAULT_HAND_FILTER: HandFilterSettings = {
+  minCutoff: 1.2,
+  beta: 2.0,
+  openHoldMs: 150,
+  closeHoldMs: 250,
+};
+
+// Cutoff for the speed estimate itself; the paper's recommended default
+const DERIVATIVE_CUTOFF = 1.0;
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export interface OneEuroFilter {
+  filter: (value: number, timestamp: number) => number;
+  reset: () => void;
+}
+
+export const createOneEuroFilter = (params: { minCutoff: number, beta: number }): OneEuroFilter => {
+  let previous: number | null = null;
+  let previousSpeed = 0;
+  let previousTime = 0;
+
+  const filter = (value: number, timestamp: number) => {
+    if (previous === null) {
+      previous = value;
+      previousTime = timestamp;
+      return value;
+    }
+
+    const dt = Math.max((timestamp - previousTime) / 1000, 1e-3); // ms -> s
+    previousTime = timestamp;
+
+    // Estimate speed (itself low-passed), then open the cutoff up the faster the value moves
+    const speed = (value - previous) / dt;
+    previousSpeed += smoothingFactor(DERIVATIVE_CUTOFF, dt) * (speed - previousSpeed);
+    const cutoff = params.minCutoff + params.beta * Math.abs(previousSpeed);
+
+    previous += smoothingFactor(cutoff, dt) * (value - previous);
+    return previous;
+  };
+
+  const reset = () => {
+    previous = null;
+    previousSpeed = 0;
+  };
+
+  return { filter, reset };
+};
+
+export interface DebouncedSwitch {
+  update: (value: boolean, timestamp: number) => boolean;
+  reset: () => void;
+}
+
+/**
+ * Boolean that only flips once the raw value has held the new state for `onHoldMs` / `offHoldMs`.
+ */
+export const createDebouncedSwitch = (holdTimes: () => { onHoldMs: number, offHoldMs: number }): DebouncedSwitch => {
+  let state = false;
+  let pendingSince: number | null = null;
+
+  const update = (value: boolean, timestamp: number) => {
+    if (value === state) {
+      pendingSince = null;
+      return state;
+    }
+    if (pendingSince === null) pendingSince = timestamp;
+
+    const { onHoldMs, offHoldMs } = holdTimes();
+    if (timestamp - pendingSince >= (value ? onHoldMs : offHoldMs)) {
+      state = value;
+      pendingSince = null;
+    }
+    return state;
+  };
+
+  const reset = () => {
+    state = false;
+    pendingSince = null;
+  };
+
+  return { update, reset };
+};
+
+export interface HandFilter {
+  /** Smooths one hand's position and size, and debounces its open/closed state. */
+  update: (state: HandState, timestamp: number) => HandState;
+  configure: (settings: HandFilterSettings) => void;
+  /** Call when the hand is lost so the next one doesn't glide in from the old position. */
+  reset: () => void;
+}
+
+export const createHandFilter = (initial: HandFilterSettings = DEFAULT_HAND_FILTER): HandFilter => {
+  // Shared object so configure() retunes the live filters in place
+  const params = { minCutoff: initial.minCutoff, beta: initial.beta };
+  let settings = initial;
+
+  const x = createOneEuroFilter(params);
+  const y = createOneEuroFilter(params);
+  const z = createOneEuroFilter(params);
+  const open = createDebouncedSwitch(() => ({ onHoldMs: settings.openHoldMs, offHoldMs: settings.closeHoldMs }));
+
+  const update = (state: HandState, timestamp: number): HandState => ({
+    x: x.filter(state.x, timestamp),
+    y: y.filter(state.y, timestamp),
+    z: z.filter(state.z, timestamp),
+    isOpen: open.update(state.isOpen, timestamp),
+    openness: state.openness,
+  });
+
+  const configure = (next: HandFilterSettings) => {
+    settings = next;
+    params.minCutoff = next.minCutoff;
+    params.beta = next.beta;
+  };
+
+  const reset = () => {
+    x.reset();
+    y.reset();
+    z.reset();
+    open.reset();
+  };
+
+  return { update, configure, reset };
+};
@@ -0,0 +1,109 @@
+import { NormalizedLandmark, Category } from '@mediapipe/tasks-vision';
+import { GestureEvent, GestureType, HandFilterSettings, HandSide } from '../types';
+import { createGestureClassifier } from './GestureClassifier';
+import { createHandTracker, HandFrame, TrackedHand } from './HandTracking';
+import { createHandFilter, DEFAULT_HAND_FILTER } from './HandFilter';
+
+/**
+ * Hand Pipeline
+ * Everything between the detector and the store, as one pure per-frame step:
+ * identity tracking -> smoothing -> open/closed decision -> gesture classification.
+ * The live webcam and recorded sessions (see SessionRecording) both feed it, so a recording
+ * replays through exactly the same logic, with or without a browser.
+ */
+
+// What a detector produces for one frame (the subset of HandLandmarkerResult we use)
+export interface HandDetections {
+  landmarks: NormalizedLandmark[][];
+  handedness: Category[][];
+}
+
+export interface PipelineFrame {
+  hands: HandFrame; // Tracked, smoothed hands, briefly missed ones held (raw landmarks kept for drawing)
+  primary: TrackedHand | null; // Drives the camera and gestures: right if visible, else left
+  isOpen: boolean; // Scatter: open primary hand, or two hands spread apart
+  events: GestureEvent[]; // Discrete gestures recognized on this frame
+  active: { type: GestureType | null, confidence: number };
+}
+
+// A hand missed for this long (motion blur, a fast turn) is held where it was, open or closed.
+// Each hand is held on its own, so losing one of two hands for a frame doesn't flip the primary
+// hand or switch between the two-hand and one-hand open/closed rules.
+export const LOST_HAND_GRACE_MS = 150;
+
+export interface HandPipeline {
+  update: (detections: HandDetections, timestamp: number) => PipelineFrame;
+  configure: (options: { filter?: HandFilterSettings, openThreshold?: number }) => void;
+  reset: () => void;
+}
+
+export const createHandPipeline = (filter: HandFilterSettings = DEFAULT_HAND_FILTER): HandPipeline => {
+  const tracker = createHandTracker();
+  const classifier = createGestureClassifier();
+  const filters = { left: createHandFilter(filter), right: createHandFilter(filter) };
+  const held: Record<HandSide, TrackedHand | null> = { left: null, right: null };
+  const seenAt = { left: -Infinity, right: -Infinity };
+  let primarySide: HandSide | null = null;
+
+  const reset = () => {
+    tracker.reset();
+    classifier.reset();
+    filters.left.reset();
+    filters.right.reset();
+    held.left = null;
+    held.right = null;
+    seenAt.left = -Infinity;
+    seenAt.right = -Infinity;
+    primarySide = null;
+  };
+
+  const update = (detections: HandDetections, timestamp: number): PipelineFrame => {
+    // 1. Assign detections to stable left/right hands, smooth each one, and hold briefly missed ones
+    const hands = tracker.update(detections.landmarks ?? [], detections.handedness ?? [], timestamp);
+    (['left', 'right'] as const).forEach((side) => {
+      const hand = hands[side];
+      if (hand) {
+        hand.state = filters[side].update(hand.state, timestamp);
+        held[side] = hand;
+        seenAt[side] = timestamp;
+      } else if (timestamp - seenAt[side] <= LOST_HAND_GRACE_MS) {
+        hands[side] = held[side];
+      } else {
+        held[side] = null;
+        filters[side].reset();
+      }
+    });
+
+    const primary = hands.right ?? hands.left;
+    if (!primary) {
+      // Hand lost: drop stale poses and identities so the next hand starts fresh
+      reset();
+      return { hands, primary, isOpen: false, events: [], active: { type: null, confidence: 0 } };
+    }
+
+    // A different hand now leads: its palm is elsewhere, so motion and poses start over (no false swipe)
+    if (primary.side !== primarySide) {
+      classifier.reset();
+      primarySide = primary.side;
+    }
+
+    // 2. Open vs Closed: with both hands up, spreading them apart scatters instead
+    const isTwoHanded = hands.left !== null && hands.right !== null;
+    const isOpen = isTwoHanded ? hands.isSpread : primary.state.isOpen;
+
+    // 3. Classify discrete gestures (pinch, swipe, thumbs-up...), only from a hand actually seen this frame
+    const events = seenAt[primary.side] === timestamp ? classifier.update(primary.landmarks, timestamp) : [];
+
+    return { hands, primary, isOpen, events, active: classifier.active() };
+  };
+
+  const configure = (options: { filter?: HandFilterSettings, openThreshold?: number }) => {
+    if (options.filter) {
+      filters.left.configure(options.filter);
+      filters.right.configure(options.filter);
+    }
+    if (options.openThreshold !== undefined) tracker.configure({ openThreshold: options.openThreshold });
+  };
+
+  return { update, configure, reset };
+};
@@ -0,0 +1,189 @@
+import { NormalizedLandmark, Category } from '@mediapipe/tasks-vision';
+import { HandSide, HandState } from '../types';
+
+/**
+ * Hand Tracking
+ * Turns raw per-frame detections into stable left/right hands, and derives the two-hand
+ * spread/together state. Coordinates are mirrored (1 - x) like the rest of the app.
+ */
+
+// How long a lost hand keeps its slot for re-identification
+const IDENTITY_MEMORY_MS = 400;
+const REIDENTIFY_DISTANCE = 0.25;
+
+// Two-hand spread hysteresis (distance between palms, in normalized frame units)
+const SPREAD_ENTER = 0.5;
+const SPREAD_EXIT = 0.22;
+
+// Mean fingertip reach (see handOpenness) above which a hand counts as open, without calibration
+export const DEFAULT_OPEN_THRESHOLD = 1.0;
+
+/**
+ * How open the hand is: the mean ratio of fingertip-to-wrist over knuckle-to-wrist distance.
+ * ~0.7 for a fist, ~1.5 for a flat open hand.
+ * Landmarks:
+ * 0: Wrist
+ * Tips: 8 (Index), 12 (Middle), 16 (Ring), 20 (Pinky)
+ * PIPs: 6, 10, 14, 18
+ */
+export const handOpenness = (landmarks: NormalizedLandmark[]): number => {
+  const wrist = landmarks[0];
+
+  // Check 4 fingers (Index, Middle, Ring, Pinky)
+  const dist = (p1: NormalizedLandmark, p2: NormalizedLandmark) => {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  };
+
+  const fingerIndices = [
+    { tip: 8, pip: 6 },   // Index
+    { tip: 12, pip: 10 }, // Middle
+    { tip: 16, pip: 14 }, // Ring
+    { tip: 20, pip: 18 }  // Pinky
+  ];
+
+  let total = 0;
+  for (const finger of fingerIndices) {
+    total += dist(wrist, landmarks[finger.tip]) / Math.max(dist(wrist, landmarks[finger.pip]), 1e-6);
+  }
+  return total / fingerIndices.length;
+};
+
+/**
+ * Simple logic to detect if hand is open: fingertips reach further from the wrist than the knuckles.
+ * The threshold comes from the user's calibration profile when there is one.
+ */
+export const isHandOpen = (landmarks: NormalizedLandmark[], threshold = DEFAULT_OPEN_THRESHOLD): boolean => {
+  return handOpenness(landmarks) >= threshold;
+};
+
+/**
+ * Position, size and open state of one hand.
+ */
+export const measureHand = (landmarks: NormalizedLandmark[], openThreshold = DEFAULT_OPEN_THRESHOLD): HandState => {
+  // Use Middle Finger MCP (9) as center anchor
+  const center = landmarks[9];
+  const wrist = landmarks[0];
+
+  // Z: Scale proxy. Distance from Wrist to Middle Finger MCP.
+  // Close hand -> Large Dist. Far hand -> Small Dist.
+  const dx = center.x - wrist.x;
+  const dy = center.y - wrist.y;
+  const openness = handOpenness(landmarks);
+
+  return {
+    x: 1 - center.x, // Mirror the X coordinate because webcam is mirrored
+    y: center.y,
+    z: Math.sqrt(dx*dx + dy*dy),
+    isOpen: openness >= openThreshold,
+    openness,
+  };
+};
+
+export interface TrackedHand {
+  side: HandSide;
+  landmarks: NormalizedLandmark[];
+  state: HandState;
+}
+
+export interface HandFrame {
+  left: TrackedHand | null;
+  right: TrackedHand | null;
+  isSpread: boolean; // Two hands held apart (scatter); false once brought together
+}
+
+export interface HandTracker {
+  update: (landmarks: NormalizedLandmark[][], handedness: Category[][], timestamp: number) => HandFrame;
+  configure: (options: { openThreshold: number }) => void;
+  reset: () => void;
+}
+
+export const createHandTracker = (): HandTracker => {
+  const lastSeen: Record<HandSide, { x: number, y: number, t: number } | null> = { left: null, right: null };
+  let isSpread = false;
+  let openThreshold = DEFAULT_OPEN_THRESHOLD;
+
+  // MediaPipe labels handedness as if the image were mirrored; our frames aren't, so labels are swapped
+  const sideFromLabel = (categories: Category[] | undefined): HandSide | null => {
+    const label = categories?.[0]?.categoryName;
+    if (label === 'Left') return 'right';
+    if (label === 'Right') return 'left';
+    return null;
+  };
+
+  const recent = (side: HandSide, timestamp: number) => {
+    const seen = lastSeen[side];
+    return seen && timestamp - seen.t < IDENTITY_MEMORY_MS ? seen : null;
+  };
+
+  const distanceTo = (state: HandState, seen: { x: number, y: number }) => Math.hypot(state.x - seen.x, state.y - seen.y);
+
+  const update = (allLandmarks: NormalizedLandmark[][], handedness: Category[][], timestamp: number): HandFrame => {
+    const hands = allLandmarks.slice(0, 2).map((landmarks, i) => ({
+      landmarks,
+      state: measureHand(landmarks, openThreshold),
+      label: sideFromLabel(handedness[i]),
+    }));
+    const frame: HandFrame = { left: null, right: null, isSpread };
+
+    if (hands.length === 2) {
+      const [a, b] = hands;
+      const prevLeft = recent('left', timestamp);
+      const prevRight = recent('right', timestamp);
+      let aIsLeft: boolean;
+      if (prevLeft && prevRight) {
+        // Keep identities through crossings: pick the pairing with the least total movement
+        const straight = distanceTo(a.state, prevLeft) + distanceTo(b.state, prevRight);
+        const swapped = distanceTo(a.state, prevRight) + distanceTo(b.state, prevLeft);
+        aIsLeft = straight <= swapped;
+      } else {
+        // Fresh pair: the hand further left on screen is the left hand
+        aIsLeft = a.state.x < b.state.x;
+      }
+      const [left, right] = aIsLeft ? [a, b] : [b, a];
+      frame.left = { side: 'left', landmarks: left.landmarks, state: left.state };
+      frame.right = { side: 'right', landmarks: right.landmarks, state: right.state };
+    } else if (hands.length === 1) {
+      const [hand] = hands;
+      const prevLeft = recent('left', timestamp);
+      const prevRight = recent('right', timestamp);
+      let side: HandSide;
+      if (prevLeft && prevRight) {
+        side = distanceTo(hand.state, prevLeft) <= distanceTo(hand.state, prevRight) ? 'left' : 'right';
+      } else if (prevLeft || prevRight) {
+        // Same hand if it is still near where we last saw it, otherwise trust the label
+        const prevSide: HandSide = prevLeft ? 'left' : 'right';
+        side = distanceTo(hand.state, (prevLeft ?? prevRight)!) < REIDENTIFY_DISTANCE ? prevSide : (hand.label ?? prevSide);
+      } else {
+        side = hand.label ?? 'right';
+      }
+      frame[side] = { side, landmarks: hand.landmarks, state: hand.state };
+    }
+
+    (['left', 'right'] as const).forEach((side) => {
+      const hand = frame[side];
+      if (hand) lastSeen[side] = { x: hand.state.x, y: hand.state.y, t: timestamp };
+    });
+
+    // Spread / together only changes while both hands are visible
+    if (frame.left && frame.right) {
+      const separation = Math.hypot(frame.right.state.x - frame.left.state.x, frame.right.state.y - frame.left.state.y);
+      if (!isSpread && separation > SPREAD_ENTER) isSpread = true;
+      else if (isSpread && separation < SPREAD_EXIT) isSpread = false;
+    }
+    frame.isSpread = isSpread;
+
+    return frame;
+  };
+
+  const reset = () => {
+    lastSeen.left = null;
+    lastSeen.right = null;
+    isSpread = false;
+  };
+
+  const configure = (options: { openThreshold: number }) => {
+    openThreshold = options.openThreshold;
+  };
+
+  return { update, configure, reset };
+};
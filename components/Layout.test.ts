@@ -0,0 +1,47 @@
+import { readFileSync } from 'node:fs';
+import * as THREE from 'three';
+import { FontLoader } from 'three-stdlib';
+import { describe, expect, it } from 'vitest';
+import { FormationId, TreeShapeId } from '../types';
+import { DEFAULT_FORMATION, fillFormation, resolveFormation } from './Formations';
+import { createRandom, DEFAULT_LAYOUT_SEED, deriveSeed } from './Random';
+import { DEFAULT_TREE_SHAPE, getTreePoint } from './TreeShapes';
+
+// The headline typeface, read from the copy three ships with
+const font = new FontLoader().parse(JSON.parse(readFileSync(new URL('../node_modules/three/examples/fonts/optimer_bold.typeface.json', import.meta.url), 'utf8')));
+
+const ITEMS = 4;
+const round = (values: ArrayLike<number>) => Array.from(values, (v) => Math.round(v * 10000) / 10000);
+
+// A few items of one layer, placed the way the layers do it: three formation seeds each from the layer's stream
+const layoutOf = (layoutSeed: number, layer: string, formationId: FormationId, shapeId: TreeShapeId) => {
+  const random = createRandom(deriveSeed(layoutSeed, layer));
+  const seeds = Float32Array.from({ length: ITEMS * 3 }, random);
+  const settings = { ...DEFAULT_FORMATION, id: formationId, text: 'NOEL' };
+  const formation = resolveFormation(formationId, settings, font, deriveSeed(layoutSeed, 'formation'));
+  const shape = { ...DEFAULT_TREE_SHAPE, id: shapeId };
+  const point = new THREE.Vector3();
+  return {
+    scattered: round(fillFormation(formation, seeds, 18, new Float32Array(seeds.length))),
+    tree: Array.from({ length: ITEMS }, (_, i) => round(getTreePoint(shape, seeds[i * 3], seeds[i * 3 + 1] * Math.PI * 2, 1, point).toArray())),
+  };
+};
+
+describe('seeded layouts', () => {
+  it('places every layer the same way for the default seed', () => {
+    const layout = {
+      foliage: layoutOf(DEFAULT_LAYOUT_SEED, 'foliage', 'galaxy', 'cone'),
+      ornaments: layoutOf(DEFAULT_LAYOUT_SEED, 'ornaments-primary', 'heart', 'fir'),
+      lights: layoutOf(DEFAULT_LAYOUT_SEED, 'lights-0', 'helix', 'spiral'),
+      cards: layoutOf(DEFAULT_LAYOUT_SEED, 'cards', 'text', 'pine'),
+    };
+    expect(layout).toMatchSnapshot();
+  });
+
+  it('gives each layer and each seed its own stream', () => {
+    const foliage = layoutOf(DEFAULT_LAYOUT_SEED, 'foliage', 'sphere', 'cone');
+    expect(layoutOf(DEFAULT_LAYOUT_SEED, 'foliage', 'sphere', 'cone')).toEqual(foliage);
+    expect(layoutOf(DEFAULT_LAYOUT_SEED, 'gifts', 'sphere', 'cone')).not.toEqual(foliage);
+    expect(layoutOf(DEFAULT_LAYOUT_SEED + 1, 'foliage', 'sphere', 'cone')).not.toEqual(foliage);
+  });
+});
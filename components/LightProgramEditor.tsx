@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { LightPattern, LightProgramStep } from '../types';
+import { LIGHT_PATTERNS, LIGHT_STEP_LIMITS } from './LightSequences';
+
+const clampSeconds = (seconds: number) => Math.min(LIGHT_STEP_LIMITS.max, Math.max(LIGHT_STEP_LIMITS.min, Math.round(seconds)));
+
+// Holds what is typed until the field is left, so it can pass through values outside the range
+// (an empty field, or the "3" on the way to "30"); in-range values still apply as they are typed
+const SecondsInput = ({ seconds, onChange }: { seconds: number, onChange: (seconds: number) => void }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const value = Number(draft);
+    if (draft.trim() !== '' && Number.isFinite(value)) onChange(clampSeconds(value));
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number"
+      min={LIGHT_STEP_LIMITS.min}
+      max={LIGHT_STEP_LIMITS.max}
+      value={draft ?? seconds}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const value = Number(e.target.value);
+        if (e.target.value !== '' && value >= LIGHT_STEP_LIMITS.min && value <= LIGHT_STEP_LIMITS.max) onChange(clampSeconds(value));
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-14 px-1 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+    />
+  );
+};
+
+/**
+ * Light Program Editor
+ * The steps the fairy lights play through, in order and on a loop: a pattern and how many
+ * seconds it runs for.
+ */
+const LightProgramEditor = ({ program, onChange }: { program: LightProgramStep[], onChange: (program: LightProgramStep[]) => void }) => {
+  const updateStep = (index: number, step: Partial<LightProgramStep>) => {
+    onChange(program.map((s, i) => (i === index ? { ...s, ...step } : s)));
+  };
+
+  return (
+    <div className="space-y-1">
+      {program.map((step, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <select
+            value={step.pattern}
+            onChange={(e) => updateStep(i, { pattern: e.target.value as LightPattern })}
+            className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+          >
+            {LIGHT_PATTERNS.map((p) => (
+              <option key={p.id} value={p.id} className="bg-black">{p.label}</option>
+            ))}
+          </select>
+          <SecondsInput seconds={step.seconds} onChange={(seconds) => updateStep(i, { seconds })} />
+          <span className="text-white/40">s</span>
+          <button
+            onClick={() => onChange(program.filter((_, j) => j !== i))}
+            disabled={program.length <= 1}
+            className="px-2 rounded border border-white/20 text-white/50 hover:text-red-300 disabled:opacity-30 disabled:pointer-events-none"
+            aria-label="Remove step"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...program, { pattern: 'steady', seconds: 10 }])}
+        className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+      >
+        Add Step
+      </button>
+    </div>
+  );
+};
+
+export default LightProgramEditor;
@@ -0,0 +1,106 @@
+import { LightPattern, LightProgramStep, LightShowSettings } from '../types';
+
+/**
+ * Fairy-Light Sequences
+ * The fairy lights run one pattern at a time, or a program of patterns on a loop. Patterns
+ * themselves are computed per light in the ornament shader (see TreeShaders) from each light's
+ * height, group and seed; the sequencer only decides which pattern runs, fades between them,
+ * and keeps the pattern clock.
+ */
+
+export const LIGHT_PATTERNS: { id: LightPattern, label: string }[] = [
+  { id: 'steady', label: 'Steady' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'blink', label: 'Alternating Blink' },
+  { id: 'rainbow', label: 'Rainbow Wave' },
+  { id: 'breathe', label: 'Breathing' },
+  { id: 'sparkle', label: 'Random Sparkle' },
+];
+
+// What the shader receives in place of a pattern id
+export const LIGHT_PATTERN_INDEX = Object.fromEntries(
+  LIGHT_PATTERNS.map((p, i) => [p.id, i])
+) as Record<LightPattern, number>;
+
+export const LIGHT_SPEED_LIMITS = { min: 0.25, max: 3 };
+export const LIGHT_BRIGHTNESS_LIMITS = { min: 0, max: 2 };
+export const LIGHT_STEP_LIMITS = { min: 2, max: 300 }; // Seconds per program step
+
+export const DEFAULT_LIGHT_PROGRAM: LightProgramStep[] = [
+  { pattern: 'chase', seconds: 20 },
+  { pattern: 'blink', seconds: 10 },
+  { pattern: 'rainbow', seconds: 20 },
+  { pattern: 'breathe', seconds: 15 },
+  { pattern: 'sparkle', seconds: 15 },
+];
+
+// Steady lights, as the tree has always had
+export const DEFAULT_LIGHT_SHOW: LightShowSettings = {
+  pattern: 'steady',
+  program: DEFAULT_LIGHT_PROGRAM,
+  speed: 1,
+  brightness: 1,
+};
+
+// Cross-fade between two patterns
+const PATTERN_FADE_SECONDS = 0.8;
+
+// What the lights show this frame, as shader uniform values
+export interface LightFrame {
+  pattern: number;
+  previous: number; // Pattern being faded out
+  blend: number; // 0 = previous, 1 = pattern
+  time: number; // Pattern clock, in seconds scaled by speed
+}
+
+export interface LightSequencer {
+  update: (delta: number, settings: LightShowSettings) => LightFrame;
+}
+
+export const createLightSequencer = (): LightSequencer => {
+  let time = 0;
+  let current: LightPattern = 'steady';
+  let previous: LightPattern = 'steady';
+  let fade = 1;
+  let programElapsed = 0;
+
+  // The program step that's due after `elapsed` seconds, looping
+  const programPattern = (program: LightProgramStep[], elapsed: number): LightPattern => {
+    const total = program.reduce((sum, step) => sum + step.seconds, 0);
+    let t = total > 0 ? elapsed % total : 0;
+    for (const step of program) {
+      if (t < step.seconds) return step.pattern;
+      t -= step.seconds;
+    }
+    return program[program.length - 1].pattern;
+  };
+
+  const update = (delta: number, settings: LightShowSettings): LightFrame => {
+    time += delta * settings.speed;
+
+    let wanted: LightPattern = 'steady';
+    if (settings.pattern !== 'program') {
+      wanted = settings.pattern;
+      programElapsed = 0;
+    } else if (settings.program.length > 0) {
+      programElapsed += delta;
+      wanted = programPattern(settings.program, programElapsed);
+    }
+
+    if (wanted !== current) {
+      previous = current;
+      current = wanted;
+      fade = 0;
+    }
+    fade = Math.min(1, fade + delta / PATTERN_FADE_SECONDS);
+
+    return {
+      pattern: LIGHT_PATTERN_INDEX[current],
+      previous: LIGHT_PATTERN_INDEX[previous],
+      blend: fade * fade * (3 - 2 * fade),
+      time,
+    };
+  };
+
+  return { update };
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTreeStore } from '../store';
+import { MUSIC_SENSITIVITY_LIMITS, MusicAnalyser } from './AudioAnalysis';
+import { CAROLS } from './Carols';
+import { MusicSource, openMicrophone, playCarol, playMusicFile } from './MusicSources';
+
+/**
+ * Music Panel
+ * Picks what the tree dances to: the bundled carols (played in order, on a loop), a local
+ * audio file, or the microphone.
+ */
+const MusicPanel = ({ music }: { music: MusicAnalyser }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [carolIndex, setCarolIndex] = useState(0);
+  const [nowPlaying, setNowPlaying] = useState<string | null>(null);
+  const [musicError, setMusicError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sourceRef = useRef<MusicSource | null>(null);
+  const requestRef = useRef(0); // Only the latest start wins, if several are loading at once
+  const settings = useTreeStore((state) => state.music);
+  const setMusic = useTreeStore((state) => state.setMusic);
+
+  const stop = () => {
+    requestRef.current++;
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setNowPlaying(null);
+  };
+
+  const start = async (open: () => Promise<MusicSource>) => {
+    stop();
+    const request = requestRef.current;
+    setMusicError(null);
+    setNowPlaying('Loading...');
+    try {
+      const source = await open();
+      if (request !== requestRef.current) {
+        source.stop();
+        return;
+      }
+      sourceRef.current = source;
+      setNowPlaying(source.label);
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      console.error("Could not start music:", error);
+      setMusicError(error instanceof Error ? error.message : 'The music could not be started');
+      setNowPlaying(null);
+    }
+  };
+
+  // Each carol hands over to the next when it ends
+  const startCarol = (index: number) => {
+    setCarolIndex(index);
+    start(() => playCarol(music, CAROLS[index], () => startCarol((index + 1) % CAROLS.length)));
+  };
+
+  useEffect(() => () => sourceRef.current?.stop(), []);
+
+  return (
+    <div className="absolute bottom-12 right-4 z-50 flex flex-col items-end font-mono text-xs">
+      {isOpen && (
+        <div className="mb-2 w-72 p-3 rounded-lg border border-white/20 bg-black/60 backdrop-blur-md text-white/80 space-y-2">
+          <div className="truncate text-amber-200">{nowPlaying ? `♪ ${nowPlaying}` : 'Nothing playing'}</div>
+
+          {/* Bundled carols */}
+          <div className="flex gap-1">
+            <select
+              value={carolIndex}
+              onChange={(e) => setCarolIndex(Number(e.target.value))}
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+            >
+              {CAROLS.map((carol, i) => (
+                <option key={carol.id} value={i} className="bg-black">{carol.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => startCarol(carolIndex)}
+              className="px-2 py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+            >
+              Play
+            </button>
+          </div>
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+          >
+            Play Audio File
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) start(() => playMusicFile(music, file, stop));
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => start(() => openMicrophone(music))}
+            className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+          >
+            Listen to Microphone
+          </button>
+          {nowPlaying && (
+            <button
+              onClick={stop}
+              className="w-full py-1 rounded border border-white/20 text-white/60 hover:text-red-300 transition-colors"
+            >
+              Stop
+            </button>
+          )}
+          {musicError && <div className="text-red-300">{musicError}</div>}
+
+          <label className="flex items-center gap-2">
+            <span className="w-24 shrink-0">Sensitivity</span>
+            <input
+              type="range"
+              min={MUSIC_SENSITIVITY_LIMITS.min}
+              max={MUSIC_SENSITIVITY_LIMITS.max}
+              step={0.05}
+              value={settings.sensitivity}
+              onChange={(e) => setMusic({ ...settings, sensitivity: Number(e.target.value) })}
+              className="flex-1 accent-amber-400"
+            />
+            <span className="w-8 text-right">{settings.sensitivity.toFixed(1)}</span>
+          </label>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 rounded-full backdrop-blur-md border bg-amber-500/20 border-amber-500/50 text-amber-200"
+      >
+        {isOpen ? 'Close' : nowPlaying ? '♪ Music (on)' : '♪ Music'}
+      </button>
+    </div>
+  );
+};
+
+export default MusicPanel;
@@ -0,0 +1,78 @@
+import { MusicAnalyser } from './AudioAnalysis';
+import { Carol, renderCarol } from './Carols';
+
+/**
+ * Music Sources
+ * What the music analyser listens to: a bundled carol, a local audio file, or the microphone.
+ * Carols and files are played through the speakers as well; the microphone only feeds the
+ * analyser, so it doesn't echo.
+ */
+
+export type MusicSourceKind = 'carol' | 'file' | 'microphone';
+
+export interface MusicSource {
+  kind: MusicSourceKind;
+  label: string;
+  stop: () => void;
+}
+
+// Plays a decoded track once; `onEnded` fires when it finishes by itself, not when stopped
+const playBuffer = (music: MusicAnalyser, buffer: AudioBuffer, onEnded: () => void) => {
+  const { context, analyser, output } = music.connect();
+  const node = context.createBufferSource();
+  node.buffer = buffer;
+  node.connect(analyser);
+  node.connect(output);
+  let stopped = false;
+  node.onended = () => {
+    if (!stopped) onEnded();
+  };
+  node.start();
+  return () => {
+    stopped = true;
+    node.stop();
+    node.disconnect();
+  };
+};
+
+export const playCarol = async (music: MusicAnalyser, carol: Carol, onEnded: () => void): Promise<MusicSource> => {
+  music.connect(); // While the click that started it still counts as a user gesture
+  const buffer = await renderCarol(carol);
+  return { kind: 'carol', label: carol.title, stop: playBuffer(music, buffer, onEnded) };
+};
+
+export const playMusicFile = async (music: MusicAnalyser, file: File, onEnded: () => void): Promise<MusicSource> => {
+  const { context } = music.connect();
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error('This file could not be played');
+  }
+  return { kind: 'file', label: file.name, stop: playBuffer(music, buffer, onEnded) };
+};
+
+export const openMicrophone = async (music: MusicAnalyser): Promise<MusicSource> => {
+  const { context, analyser } = music.connect();
+  let stream: MediaStream;
+  try {
+    // Processing meant for calls would flatten the music
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch (error) {
+    throw new Error(error instanceof DOMException && error.name === 'NotAllowedError'
+      ? 'Microphone access was denied'
+      : 'No microphone could be opened');
+  }
+  const node = context.createMediaStreamSource(stream);
+  node.connect(analyser);
+  return {
+    kind: 'microphone',
+    label: stream.getAudioTracks()[0]?.label || 'Microphone',
+    stop: () => {
+      node.disconnect();
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+};
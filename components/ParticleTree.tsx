@@ -1,10 +1,37 @@
-import React, { useMemo, useRef, useEffect, useState } from 'react';
+import React, { useMemo, useRef, useEffect, useLayoutEffect, useState } from 'react';
 import { useFrame, useLoader, extend, useThree } from '@react-three/fiber';
-import { Instances, Instance } from '@react-three/drei';
 import * as THREE from 'three';
-import { TextGeometry, FontLoader, MeshSurfaceSampler } from 'three-stdlib';
-import { useTreeStore } from '../store';
-import { foliageVertexShader, foliageFragmentShader, textVertexShader, textFragmentShader } from './TreeShaders';
+import { TextGeometry, FontLoader, mergeBufferGeometries } from 'three-stdlib';
+// The headline typeface, bundled from three's own copy so the app needs no CDN
+import HEADLINE_FONT_URL from 'three/examples/fonts/optimer_bold.typeface.json?url';
+import { subscribeGestures, useTreeStore } from '../store';
+import { TreeShape } from '../types';
+import { DEFAULT_BLESSINGS } from './Blessings';
+import { StationeryTheme, getStationeryTheme, drawMessageCard, CARD_WIDTH, CARD_HEIGHT, DEFAULT_CARD_THEMES } from './StationeryThemes';
+import { sampleTextPoints, canTypeset, FALLBACK_FONT_STACK, RASTER_FONT_PX } from './TextSampler';
+import {
+  foliageVertexShader,
+  foliageFragmentShader,
+  textVertexShader,
+  textFragmentShader,
+  cardVertexShader,
+  cardFragmentShader,
+  ornamentVertexHeader,
+  ornamentBeginNormal,
+  ornamentBeginVertex,
+  lightVertexHeader,
+  lightBeginVertex,
+  lightFragmentHeader,
+  lightEmissiveFragment,
+} from './TreeShaders';
+import { MAX_FOLIAGE, MAX_GIFTS, QUALITY_PRESETS } from './QualityManager';
+import { DEFAULT_TREE_SHAPE, getTreeBase, getTreePoint, getTreeTop } from './TreeShapes';
+import { RandomSource, createRandom, deriveSeed } from './Random';
+import { GIFT_WRAP_SLOTS, ThemeColors } from './ColorThemes';
+import { Formation, SNOWFALL_SPEED, fillFormation, getFormationPoint, nextFormation, resolveFormation } from './Formations';
+import { createLightSequencer } from './LightSequences';
+import { MusicLevels } from './AudioAnalysis';
+import { Soundscape } from './SoundEffects';
 
 // Extend for declarative use if needed
 extend({ TextGeometry });
@@ -13,180 +40,224 @@ extend({ TextGeometry });
  * Constants & Helpers
  */
 const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
-const TREE_HEIGHT = 7;
-const TREE_WIDTH = 3.5;
-
-// Insightful, Cheerful & Wise Quotes (Updated with witty & warm Christmas wishes)
-const BLESSINGS = [
-  "May your\nWi-Fi be\nstrong & your\ncoffee hot.",
-  "You light up\nthe room\nbrighter than\nthis tree.",
-  "Calories\ndon't count\nin December.",
-  "Santa saw\nyour Instagram.\nYou're getting\nclothes.", // A bit of humor
-  "May your\nwrapping paper\ncut like\nbutter.", // The ultimate satisfaction
-  "You are the\nmarshmallow\nto my cocoa.",
-  "Rest is\nproductive.\nSleep in.",
-  "May your\nleftovers be\ndelicious.",
-  "Unwrap\nyourself.\nYou are\na gift.",
-  "Peace over\nperfection\nthis year.",
-  "Your smile\nis my favorite\nornament.",
-  "Stay cozy,\nstay wild,\nstay you.",
-  "May your\nsocks be warm\n& heart light.",
-  "Don't get\nyour tinsel\nin a tangle.",
-  "Wishing you\nsilence when\nyou need it.",
-  "You deserve\nthe biggest\ncookie.",
-  "Snowflakes\nare unique.\nJust like you.",
-  "Glow\ndifferently\nthis year.",
-  "May your\nheart be as\nfull as your\nplate.",
-  "Collect\nmoments,\nnot things.",
-  "Put down\nthe phone.\nLook at\nthe stars.",
-  "You make\nwinter feel\nwarm.",
-  "Wishing you\na season of\nsmall miracles.",
-  "Treat\nyourself like\na friend.",
-  "Believe in\nthe magic of\nnew starts.",
-  "Sparkle\na little\nbrighter.",
-  "You are\nloved more\nthan you know.",
-  "Relax.\nYou've done\nenough.",
-  "Here’s to\nslow mornings.",
-  "Merry\neverything & \nhappy always."
-];
-
-// Generate a texture for the message card with varied styles and handwriting fonts
-const createMessageTexture = (text: string, styleIndex: number) => {
+const MORPH_SECONDS = 1.2; // Duration of a tree shape change
+
+// Shared setup for card canvases turned into textures
+const toCardTexture = (canvas: HTMLCanvasElement) => {
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  // Anisotropy helps with oblique angles
+  tex.anisotropy = 8;
+  return tex;
+};
+
+// Draw the message card in the given stationery theme
+const renderMessageCard = (text: string, theme: StationeryTheme) => {
   const canvas = document.createElement('canvas');
-  canvas.width = 512; 
-  canvas.height = 640;
+  canvas.width = CARD_WIDTH; 
+  canvas.height = CARD_HEIGHT;
   const ctx = canvas.getContext('2d');
-  if (!ctx) return new THREE.Texture();
-
-  // Define 4 distinct stationery styles with CLEAR Handwriting Fonts (No hard-to-read cursives)
-  const styles = [
-    // 1. Vintage Kraft Paper
-    { 
-      bg: '#e8dcca', 
-      text: '#4a3b2a', 
-      border: '#8d6e63',
-      font: '"Indie Flower", cursive', // Very readable
-      decorType: 'dashed'
-    },
-    // 2. Soft Pink Love Letter
-    { 
-      bg: '#fff0f5', 
-      text: '#c2185b', 
-      border: '#f48fb1',
-      font: '"Caveat", cursive', // Clear marker style
-      decorType: 'hearts'
-    },
-    // 3. Winter Frost
-    { 
-      bg: '#e3f2fd', 
-      text: '#01579b', 
-      border: '#81d4fa',
-      font: '"Caveat", cursive', 
-      decorType: 'snow'
-    },
-    // 4. Festive Holiday
-    { 
-      bg: '#fff8e1', 
-      text: '#b71c1c', 
-      border: '#ff6f00', 
-      font: '"Indie Flower", cursive',
-      decorType: 'double'
-    }
-  ];
+  if (ctx) drawMessageCard(ctx, text, theme);
+  return canvas;
+};
 
-  const style = styles[styleIndex % styles.length];
+// Draw a Polaroid: the photo cropped into a square window above a handwritten caption strip
+const renderPhotoCard = (image: HTMLImageElement, caption: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 640;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
 
-  // Fill Background
-  ctx.fillStyle = style.bg;
+  // Off-white instant-film frame
+  ctx.fillStyle = '#fbfaf5';
   ctx.fillRect(0, 0, 512, 640);
 
-  // Decorations
-  if (style.decorType === 'dashed') {
-    ctx.strokeStyle = style.border;
-    ctx.lineWidth = 6;
-    ctx.setLineDash([20, 15]);
-    ctx.strokeRect(25, 25, 462, 590);
-    ctx.setLineDash([]);
-  } else if (style.decorType === 'hearts') {
-    ctx.strokeStyle = style.border;
-    ctx.lineWidth = 10;
-    ctx.strokeRect(20, 20, 472, 600);
-    // Draw dots as abstract hearts
-    ctx.fillStyle = style.border;
-    [40, 256, 472].forEach(x => {
-        ctx.beginPath(); ctx.arc(x, 40, 10, 0, Math.PI*2); ctx.fill();
-        ctx.beginPath(); ctx.arc(x, 600, 10, 0, Math.PI*2); ctx.fill();
-    });
-  } else if (style.decorType === 'snow') {
-     ctx.fillStyle = '#e1f5fe'; // Subtle lines
-     for(let i=0; i<10; i++) ctx.fillRect(0, 60 + i*60, 512, 2);
-     
-     ctx.strokeStyle = style.border;
-     ctx.lineWidth = 12;
-     ctx.strokeRect(10, 10, 492, 620);
-  } else {
-     // Double border
-     ctx.strokeStyle = style.border;
-     ctx.lineWidth = 15;
-     ctx.strokeRect(20, 20, 472, 600);
-     ctx.lineWidth = 2;
-     ctx.strokeRect(45, 45, 422, 550);
+  // Photo window (center crop to square, like real instant film)
+  const windowX = 32;
+  const windowY = 32;
+  const windowSize = 448;
+  const cropSize = Math.min(image.width, image.height);
+  const cropX = (image.width - cropSize) / 2;
+  const cropY = (image.height - cropSize) / 2;
+  ctx.fillStyle = '#1a1a1a';
+  ctx.fillRect(windowX, windowY, windowSize, windowSize);
+  ctx.drawImage(image, cropX, cropY, cropSize, cropSize, windowX, windowY, windowSize, windowSize);
+
+  // Caption Strip
+  if (caption) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#3a3a3a';
+    ctx.font = '64px "Caveat", cursive';
+    ctx.fillText(caption, 256, 560, 448);
   }
 
-  // Text Configuration
-  ctx.textAlign = 'center';
-  ctx.textBaseline = 'middle';
-  ctx.fillStyle = style.text;
-  
-  // Font logic - Increased size for readability (was 60px)
-  ctx.font = `90px ${style.font}`;
+  return canvas;
+};
+
+const createMessageTexture = (text: string, theme: StationeryTheme) => toCardTexture(renderMessageCard(text, theme));
+
+const createPhotoTexture = (image: HTMLImageElement, caption: string) => toCardTexture(renderPhotoCard(image, caption));
+
+// What a card shows: a message in a stationery theme, or an uploaded photo
+type CardFace =
+  | { key: string, kind: 'message', text: string, theme: StationeryTheme }
+  | { key: string, kind: 'photo', url: string, caption: string };
 
-  const lines = text.split('\n');
-  const lineHeight = 100; // Increased line height
-  const startY = 320 - ((lines.length - 1) * lineHeight) / 2;
+const ATLAS_TILE_WIDTH = 256;
+const ATLAS_TILE_HEIGHT = 320;
+const ATLAS_MAX_SIZE = 4096; // Safe texture size on every WebGL2 device
+const ATLAS_GUTTER = 2; // px between tiles, so filtering doesn't bleed neighbours together
 
-  lines.forEach((line, i) => {
-    ctx.fillText(line, 256, startY + i * lineHeight);
+interface CardAtlas {
+  texture: THREE.CanvasTexture;
+  rects: Float32Array; // Per face: UV offset (x, y) and size (w, h)
+  draw: (face: number, source: CanvasImageSource) => void;
+}
+
+// Every card face packed into one texture, so all cards render in a single draw call
+const createCardAtlas = (faceCount: number): CardAtlas => {
+  const cols = Math.max(1, Math.ceil(Math.sqrt(faceCount)));
+  const rows = Math.max(1, Math.ceil(faceCount / cols));
+  // Lots of distinct faces shrink the tiles rather than outgrow the texture
+  const fit = Math.min(1, ATLAS_MAX_SIZE / (cols * ATLAS_TILE_WIDTH), ATLAS_MAX_SIZE / (rows * ATLAS_TILE_HEIGHT));
+  const tileWidth = Math.floor(ATLAS_TILE_WIDTH * fit);
+  const tileHeight = Math.floor(ATLAS_TILE_HEIGHT * fit);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cols * tileWidth;
+  canvas.height = rows * tileHeight;
+  const ctx = canvas.getContext('2d');
+  // Blank paper until a face is drawn (photos decode asynchronously)
+  if (ctx) {
+    ctx.fillStyle = '#fbfaf5';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const tile = (face: number) => ({
+    x: (face % cols) * tileWidth + ATLAS_GUTTER,
+    y: Math.floor(face / cols) * tileHeight + ATLAS_GUTTER,
+    width: tileWidth - ATLAS_GUTTER * 2,
+    height: tileHeight - ATLAS_GUTTER * 2,
   });
-  
-  // Footer Decoration
-  ctx.font = `40px ${style.font}`;
-  ctx.globalAlpha = 0.6;
-  ctx.fillText('~ with love ~', 256, 580);
 
-  const tex = new THREE.CanvasTexture(canvas);
-  tex.colorSpace = THREE.SRGBColorSpace;
-  // Anisotropy helps with oblique angles
-  tex.anisotropy = 8;
-  return tex;
+  const rects = new Float32Array(faceCount * 4);
+  for (let i = 0; i < faceCount; i++) {
+    const { x, y, width, height } = tile(i);
+    // Canvas rows run downwards, texture V upwards
+    rects.set([x / canvas.width, 1 - (y + height) / canvas.height, width / canvas.width, height / canvas.height], i * 4);
+  }
+
+  const texture = toCardTexture(canvas);
+
+  const draw = (face: number, source: CanvasImageSource) => {
+    if (!ctx) return;
+    const { x, y, width, height } = tile(face);
+    ctx.drawImage(source, x, y, width, height);
+    texture.needsUpdate = true;
+  };
+
+  return { texture, rects, draw };
 };
 
+// Curled paper sheet: the bottom edge lifts off the card like real photo paper
+const createPaperGeometry = () => {
+  const geo = new THREE.PlaneGeometry(0.7, 0.85, 16, 16);
+  const pos = geo.attributes.position;
+  for(let i=0; i < pos.count; i++){
+      const y = pos.getY(i); 
+      const v = (y + 0.425) / 0.85; 
+      const curl = 0.15 * Math.pow(1 - v, 3);
+      pos.setZ(i, pos.getZ(i) + curl);
+  }
+  geo.computeVertexNormals();
+  return geo;
+};
 
-// Helper to generate chaos position (SOLID VOLUME, random distribution)
-const getChaosPos = (maxRadius = 10) => {
-  const theta = Math.random() * Math.PI * 2;
-  const phi = Math.acos(2 * Math.random() - 1);
-  const r = maxRadius * Math.cbrt(Math.random());
-  return new THREE.Vector3(
-    r * Math.sin(phi) * Math.cos(theta),
-    r * Math.sin(phi) * Math.sin(theta),
-    r * Math.cos(phi)
-  );
+
+// Three random numbers per item, fixing its place in every scatter formation
+const createSeeds = (n: number, random: RandomSource) => {
+  const seeds = new Float32Array(n * 3);
+  for (let i = 0; i < seeds.length; i++) seeds[i] = random();
+  return seeds;
+};
+
+/**
+ * Scatter positions for a GPU layer. The attribute is refilled in place when the formation
+ * changes, so the layer keeps its geometry and material.
+ */
+const useFormationPositions = (formation: Formation, seeds: Float32Array, sphereRadius: number, instanced = false) => {
+  const attribute = useMemo(() => {
+    const Attribute = instanced ? THREE.InstancedBufferAttribute : THREE.BufferAttribute;
+    return new Attribute(new Float32Array(seeds.length), 3);
+  }, [seeds, instanced]);
+
+  useLayoutEffect(() => {
+    fillFormation(formation, seeds, sphereRadius, attribute.array as Float32Array);
+    attribute.needsUpdate = true;
+  }, [attribute, formation, seeds, sphereRadius]);
+
+  return attribute;
+};
+
+// Matches the shaders' smoothstep(0.0, 1.0, uMorph)
+const morphBlend = (x: number) => x * x * (3 - 2 * x);
+
+/**
+ * Double-buffered tree positions for a GPU layer, so it can morph between tree shapes:
+ * `target` holds the current shape, `previous` where the layer is coming from, and
+ * `morph` (a uniform) runs 0 -> 1 between them. Buffers are rebuilt only when the item count changes.
+ */
+const useShapeMorph = (targets: Float32Array, instanced = false) => {
+  const morph = useMemo(() => {
+    const Attribute = instanced ? THREE.InstancedBufferAttribute : THREE.BufferAttribute;
+    return {
+      target: new Attribute(targets.slice(), 3),
+      previous: new Attribute(targets.slice(), 3),
+      uniform: { value: 1 },
+      applied: targets,
+    };
+  }, [targets.length, instanced]);
+
+  useEffect(() => {
+    if (morph.applied === targets) return;
+    const current = morph.target.array as Float32Array;
+    const previous = morph.previous.array as Float32Array;
+    // Start from wherever the last morph had got to, so quick changes don't jump
+    const blend = morphBlend(morph.uniform.value);
+    for (let i = 0; i < current.length; i++) previous[i] += (current[i] - previous[i]) * blend;
+    current.set(targets);
+    morph.target.needsUpdate = true;
+    morph.previous.needsUpdate = true;
+    morph.uniform.value = 0;
+    morph.applied = targets;
+  }, [morph, targets]);
+
+  useFrame((state, delta) => {
+    morph.uniform.value = Math.min(1, morph.uniform.value + delta / MORPH_SECONDS);
+  });
+
+  return morph;
 };
 
-const getTreePos = (t: number, theta: number, height: number, width: number) => {
-  const y = height * t - height / 2;
-  const radius = width * (1 - t);
-  const x = radius * Math.cos(theta);
-  const z = radius * Math.sin(theta);
-  return new THREE.Vector3(x, y, z);
+// 0..n-1 in random order (Fisher-Yates)
+const shuffledIndices = (n: number, random: RandomSource) => {
+  const order = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
 };
 
 /**
  * Sub-Component: The Holy Star
  */
-const HolyStar = ({ progressRef }: { progressRef: React.MutableRefObject<number> }) => {
+const HolyStar = ({ shape, palette, music, progressRef, burstRef }: { shape: TreeShape, palette: ThemeColors, music: MusicLevels, progressRef: React.MutableRefObject<number>, burstRef: React.MutableRefObject<number> }) => {
   const ref = useRef<THREE.Group>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
 
   const starShape = useMemo(() => {
     const shape = new THREE.Shape();
@@ -218,28 +289,39 @@ const HolyStar = ({ progressRef }: { progressRef: React.MutableRefObject<number>
     if (ref.current) {
       const progress = progressRef.current;
       ref.current.rotation.y += delta * 0.5;
+      // Follows the tip when the tree changes height
+      ref.current.position.y = THREE.MathUtils.lerp(ref.current.position.y, getTreeTop(shape), delta * 3);
       ref.current.rotation.z = Math.sin(state.clock.elapsedTime * 2) * 0.05;
       
-      const targetScale = 1 + progress * 0.5; 
+      const targetScale = 1 + progress * 0.5 + burstRef.current * 1.5 + music.beat * 0.3;
       const currentScale = ref.current.scale.x;
       const newScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 3);
       ref.current.scale.setScalar(newScale);
     }
+    if (lightRef.current) {
+      // Glows with the music's loudness and flares on beats
+      lightRef.current.intensity = 1.5 + burstRef.current * 6 + music.energy * 3 + music.beat * 3;
+      lightRef.current.color.copy(palette.star.glow);
+    }
+    if (materialRef.current) {
+      materialRef.current.color.copy(palette.star.color);
+      materialRef.current.emissive.copy(palette.star.glow);
+      materialRef.current.emissiveIntensity = 2.0 + music.energy * 1.5;
+    }
   });
 
   return (
-    <group ref={ref} position={[0, TREE_HEIGHT / 2 + 0.3, 0]}>
+    <group ref={ref} position={[0, getTreeTop(shape), 0]}>
       <mesh>
         <extrudeGeometry args={[starShape, extrudeSettings]} />
         <meshStandardMaterial 
-          color="#ffddaa" 
-          emissive="#ffaa00" 
+          ref={materialRef}
           emissiveIntensity={2.0} 
           roughness={0.1}
           metalness={1.0}
         />
       </mesh>
-      <pointLight intensity={1.5} color="#ffaa00" distance={5} decay={2} />
+      <pointLight ref={lightRef} intensity={1.5} distance={5} decay={2} />
     </group>
   );
 };
@@ -247,51 +329,42 @@ const HolyStar = ({ progressRef }: { progressRef: React.MutableRefObject<number>
 /**
  * Sub-Component: 3D Particle Text
  */
-const ParticleText = ({ text, position, size = 1.2, density = 2500, progressRef }: { text: string, position: [number, number, number], size?: number, density?: number, progressRef: React.MutableRefObject<number> }) => {
-  const font = useLoader(FontLoader, 'https://cdn.jsdelivr.net/npm/three/examples/fonts/optimer_bold.typeface.json');
+const ParticleText = ({ text, fontFamily = '', position, size = 1.2, density = 2500, maxWidth = Infinity, seed, palette, progressRef }: { text: string, fontFamily?: string, position: [number, number, number], size?: number, density?: number, maxWidth?: number, seed: number, palette: ThemeColors, progressRef: React.MutableRefObject<number> }) => {
+  const font = useLoader(FontLoader, HEADLINE_FONT_URL);
   const meshRef = useRef<THREE.Points>(null);
+  const usesTypeface = !fontFamily && canTypeset(font, text);
+  const [fontsLoaded, setFontsLoaded] = useState(0);
+
+  // Web fonts load lazily: re-sample once the glyphs we need are actually available
+  useEffect(() => {
+    if (usesTypeface || !document.fonts) return;
+    let cancelled = false;
+    document.fonts
+      .load(`bold ${RASTER_FONT_PX}px ${fontFamily || FALLBACK_FONT_STACK}`, text)
+      .then(() => { if (!cancelled) setFontsLoaded((n) => n + 1); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [usesTypeface, fontFamily, text]);
   
   const { geometry, uniforms } = useMemo(() => {
     if (!font) return { geometry: null, uniforms: null };
 
-    const textGeo = new TextGeometry(text, {
-      font: font,
-      size: size,
-      height: 0.2, 
-      curveSegments: 12,
-      bevelEnabled: true,
-      bevelThickness: 0.02,
-      bevelSize: 0.01,
-      bevelOffset: 0,
-    });
-    
-    textGeo.center(); 
-    
-    const tempMesh = new THREE.Mesh(textGeo, new THREE.MeshBasicMaterial());
-    const sampler = new MeshSurfaceSampler(tempMesh).build();
-    
-    const count = density; 
-    const aTargetPos = new Float32Array(count * 3);
+    const random = createRandom(seed);
+    const aTargetPos = sampleTextPoints(text, font, fontFamily, size, density, maxWidth, random);
+    const count = aTargetPos.length / 3;
     const aChaosPos = new Float32Array(count * 3);
     const aRandom = new Float32Array(count);
     
-    const tempPos = new THREE.Vector3();
-    
     for (let i = 0; i < count; i++) {
-        sampler.sample(tempPos);
-        aTargetPos[i * 3] = tempPos.x;
-        aTargetPos[i * 3 + 1] = tempPos.y;
-        aTargetPos[i * 3 + 2] = tempPos.z;
-        
-        const scatter = new THREE.Vector3((Math.random()-0.5), (Math.random()-0.5), (Math.random()-0.5))
+        const scatter = new THREE.Vector3((random()-0.5), (random()-0.5), (random()-0.5))
           .normalize()
-          .multiplyScalar((Math.random() * 5 + 2) * 20);
+          .multiplyScalar((random() * 5 + 2) * 20);
         
-        aChaosPos[i * 3] = tempPos.x + scatter.x;
-        aChaosPos[i * 3 + 1] = tempPos.y + scatter.y;
-        aChaosPos[i * 3 + 2] = tempPos.z + scatter.z;
+        aChaosPos[i * 3] = aTargetPos[i * 3] + scatter.x;
+        aChaosPos[i * 3 + 1] = aTargetPos[i * 3 + 1] + scatter.y;
+        aChaosPos[i * 3 + 2] = aTargetPos[i * 3 + 2] + scatter.z;
         
-        aRandom[i] = Math.random();
+        aRandom[i] = random();
     }
     
     const bufferGeo = new THREE.BufferGeometry();
@@ -303,10 +376,15 @@ const ParticleText = ({ text, position, size = 1.2, density = 2500, progressRef
     const unis = {
         uTime: { value: 0 },
         uProgress: { value: 0 },
+        uColor: { value: palette.text.base },
+        uHighlight: { value: palette.text.highlight },
     };
 
     return { geometry: bufferGeo, uniforms: unis };
-  }, [font, text, size, density]);
+  }, [font, text, fontFamily, size, density, maxWidth, seed, palette, fontsLoaded]);
+
+  // Headline text is editable, so release replaced buffers
+  useEffect(() => () => geometry?.dispose(), [geometry]);
 
   useFrame((state) => {
     if (meshRef.current && uniforms) {
@@ -333,171 +411,236 @@ const ParticleText = ({ text, position, size = 1.2, density = 2500, progressRef
   );
 };
 
+// Around the foliage's base, spread out in proportion to its width
+const giftPosition = (shape: TreeShape, angle: number, r: number, yOffset: number, out = new THREE.Vector3()) => {
+  const spread = shape.width / DEFAULT_TREE_SHAPE.width;
+  return out.set(Math.cos(angle) * r * spread, getTreeBase(shape) + yOffset, Math.sin(angle) * r * spread);
+};
+
 /**
  * Sub-Component: Gift Pile (Updated for Random Cloud Scatter with Motion)
+ * Two instanced meshes (boxes, ribbons + bow) share one set of instance matrices,
+ * written by a single update loop.
  */
-const GiftPile = ({ progressRef }: { progressRef: React.MutableRefObject<number> }) => {
-  const count = 70; 
+const GiftPile = ({ count, shape, formation, seed, palette, progressRef }: { count: number, shape: TreeShape, formation: Formation, seed: number, palette: ThemeColors, progressRef: React.MutableRefObject<number> }) => {
+  const boxRef = useRef<THREE.InstancedMesh>(null);
+  const ribbonRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  // Placed once for the largest preset; lower quality shows the first `count` (positions are random anyway)
   const gifts = useMemo(() => {
-    return new Array(count).fill(0).map(() => {
-      const angle = Math.random() * Math.PI * 2;
-      const r = Math.random() * 2.2 + 1.2; 
-      const x = Math.cos(angle) * r;
-      const z = Math.sin(angle) * r;
-      const y = -TREE_HEIGHT/2 + (Math.random() * 0.8) - 0.2; 
-      const target = new THREE.Vector3(x, y, z);
-      const chaos = getChaosPos(15); 
-      const scale = Math.random() * 0.4 + 0.3;
-      
-      const palettes = [
-          { box: '#b30000', ribbon: '#ffbf00' }, 
-          { box: '#005500', ribbon: '#b30000' }, 
-          { box: '#f0f0f0', ribbon: '#b30000' }, 
-          { box: '#b30000', ribbon: '#f0f0f0' }, 
-          { box: '#002244', ribbon: '#c0c0c0' }, 
-          { box: '#ffbf00', ribbon: '#f0f0f0' }, 
-          { box: '#ffffff', ribbon: '#ff0000' }, 
-          { box: '#ff0000', ribbon: '#ffffff' }, 
-      ];
-      const theme = palettes[Math.floor(Math.random() * palettes.length)];
+    const random = createRandom(seed);
+    return new Array(MAX_GIFTS).fill(0).map(() => {
+      const angle = random() * Math.PI * 2;
+      const r = random() * 2.2 + 1.2; 
+      const yOffset = (random() * 0.8) - 0.2; 
+      const target = giftPosition(shape, angle, r, yOffset);
+      const formationSeed = [random(), random(), random()] as const;
+      const scale = random() * 0.4 + 0.3;
+      // Which of the colour theme's wraps this gift uses
+      const wrap = Math.floor(random() * GIFT_WRAP_SLOTS);
+      const rot = new THREE.Euler(0, random() * Math.PI * 2, 0);
       
       return { 
+          angle,
+          r,
+          yOffset,
           target,
-          chaos,
+          formationSeed,
+          chaos: new THREE.Vector3(),
           scale, 
-          boxColor: theme.box, 
-          ribbonColor: theme.ribbon,
-          rot: new THREE.Euler(0, Math.random() * Math.PI * 2, 0),
-          chaosRot: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI) 
+          wrap,
+          rot,
+          chaosRot: new THREE.Euler(random()*Math.PI, random()*Math.PI, random()*Math.PI),
+          // Animated state, carried between frames
+          pos: target.clone(),
+          rotation: rot.clone(),
       };
     });
-  }, []);
+  }, [seed]);
 
-  return (
-    <group>
-       {gifts.map((d, i) => (
-         <ScatteringGiftBox key={i} {...d} progressRef={progressRef} />
-       ))}
-    </group>
-  );
-}
+  // A new tree shape moves the pile; each gift glides there in the update loop
+  useEffect(() => {
+    gifts.forEach((d) => giftPosition(shape, d.angle, d.r, d.yOffset, d.target));
+  }, [gifts, shape]);
 
-const ScatteringGiftBox = ({ target, chaos, scale, boxColor, ribbonColor, rot, chaosRot, progressRef }: any) => {
-  const ref = useRef<THREE.Group>(null);
-  const pos = useRef(target.clone());
+  useEffect(() => {
+    gifts.forEach((d) => getFormationPoint(formation, d.formationSeed[0], d.formationSeed[1], d.formationSeed[2], 15, d.chaos));
+  }, [gifts, formation]);
+
+  // Part offsets are baked in, so one matrix per gift places every part
+  const { boxGeometry, ribbonGeometry } = useMemo(() => {
+    const box = new THREE.BoxGeometry(1, 1, 1).translate(0, 0.5, 0);
+    const ribbonA = new THREE.BoxGeometry(1.02, 1.02, 0.15).translate(0, 0.5, 0);
+    const ribbonB = new THREE.BoxGeometry(0.15, 1.02, 1.02).translate(0, 0.5, 0);
+    const bow = new THREE.TorusKnotGeometry(0.22, 0.04, 64, 8, 2, 3).rotateX(Math.PI / 2).translate(0, 1.0, 0);
+    const ribbon = mergeBufferGeometries([ribbonA, ribbonB, bow])!;
+    [ribbonA, ribbonB, bow].forEach((g) => g.dispose());
+    return { boxGeometry: box, ribbonGeometry: ribbon };
+  }, []);
+
+  // Wrapping comes from the colour theme; re-applied whenever its colours change
+  const wrapVersionRef = useRef(-1);
+  const applyWraps = (box: THREE.InstancedMesh, ribbon: THREE.InstancedMesh) => {
+    gifts.forEach((d, i) => {
+      box.setColorAt(i, palette.gifts[d.wrap].box);
+      ribbon.setColorAt(i, palette.gifts[d.wrap].ribbon);
+    });
+    box.instanceColor!.needsUpdate = true;
+    ribbon.instanceColor!.needsUpdate = true;
+    wrapVersionRef.current = palette.version;
+  };
+
+  useLayoutEffect(() => {
+    const box = boxRef.current;
+    const ribbon = ribbonRef.current;
+    if (!box || !ribbon) return;
+    ribbon.instanceMatrix = box.instanceMatrix;
+    applyWraps(box, ribbon);
+  }, [gifts, palette]);
 
   useFrame((state, delta) => {
-    if (!ref.current) return;
+    const box = boxRef.current;
+    const ribbon = ribbonRef.current;
+    if (!box || !ribbon) return;
+    if (wrapVersionRef.current !== palette.version) applyWraps(box, ribbon);
     const progress = progressRef.current;
-    
-    // Lerp Base Position
-    const dest = progress > 0.5 ? chaos : target;
-    pos.current.lerp(dest, delta * 3);
-    ref.current.position.copy(pos.current);
-
-    // Rotation Logic
-    // If scattered, we add floating movement and continuous gentle rotation
     const time = state.clock.elapsedTime;
-    
-    if (progress > 0.8) {
-      // Gentle Float (Speed Increased 3x)
-      ref.current.position.y += Math.sin(time * 2.4 + chaos.x * 10) * 0.005;
-      ref.current.position.x += Math.cos(time * 1.5 + chaos.z * 10) * 0.005;
-      
-      // Continuous Rotation (Speed Increased 3x approx)
-      ref.current.rotation.x += Math.sin(time * 0.9 + chaos.y) * 0.015;
-      ref.current.rotation.y += Math.cos(time * 0.6 + chaos.x) * 0.015;
-    } else {
-       // Transition to target static rotation
-       const targetRot = progress > 0.5 ? chaosRot : rot;
-       ref.current.rotation.x = THREE.MathUtils.lerp(ref.current.rotation.x, targetRot.x, delta * 2);
-       ref.current.rotation.y = THREE.MathUtils.lerp(ref.current.rotation.y, targetRot.y, delta * 2);
-       ref.current.rotation.z = THREE.MathUtils.lerp(ref.current.rotation.z, targetRot.z, delta * 2);
+
+    for (let i = 0; i < count; i++) {
+      const { target, chaos, scale, rot, chaosRot, pos, rotation } = gifts[i];
+
+      // Lerp Base Position
+      const dest = progress > 0.5 ? chaos : target;
+      pos.lerp(dest, delta * 3);
+      dummy.position.copy(pos);
+
+      // Rotation Logic
+      // If scattered, we add floating movement and continuous gentle rotation
+      if (progress > 0.8) {
+        // Gentle Float (Speed Increased 3x)
+        dummy.position.y += Math.sin(time * 2.4 + chaos.x * 10) * 0.005;
+        dummy.position.x += Math.cos(time * 1.5 + chaos.z * 10) * 0.005;
+
+        // Continuous Rotation (Speed Increased 3x approx)
+        rotation.x += Math.sin(time * 0.9 + chaos.y) * 0.015;
+        rotation.y += Math.cos(time * 0.6 + chaos.x) * 0.015;
+      } else {
+        // Transition to target static rotation
+        const targetRot = progress > 0.5 ? chaosRot : rot;
+        rotation.x = THREE.MathUtils.lerp(rotation.x, targetRot.x, delta * 2);
+        rotation.y = THREE.MathUtils.lerp(rotation.y, targetRot.y, delta * 2);
+        rotation.z = THREE.MathUtils.lerp(rotation.z, targetRot.z, delta * 2);
+      }
+      dummy.rotation.copy(rotation);
+      dummy.scale.setScalar(scale * (1 + progress * 0.2));
+      dummy.updateMatrix();
+      box.setMatrixAt(i, dummy.matrix);
     }
-    
-    const s = scale * (1 + progress * 0.2); 
-    ref.current.scale.setScalar(s);
+
+    box.count = count;
+    ribbon.count = count;
+    box.instanceMatrix.needsUpdate = true;
   });
 
+  // Instances move far from where they start, so skip bounds-based culling
   return (
-    <group ref={ref} rotation={rot} scale={[scale, scale, scale]}>
-       <mesh castShadow receiveShadow position={[0, 0.5, 0]}>
-          <boxGeometry args={[1, 1, 1]} />
-          <meshStandardMaterial color={boxColor} roughness={0.3} />
-       </mesh>
-       <mesh position={[0, 0.5, 0]}>
-          <boxGeometry args={[1.02, 1.02, 0.15]} />
-          <meshStandardMaterial color={ribbonColor} metalness={0.3} roughness={0.2} />
-       </mesh>
-       <mesh position={[0, 0.5, 0]}>
-          <boxGeometry args={[0.15, 1.02, 1.02]} />
-          <meshStandardMaterial color={ribbonColor} metalness={0.3} roughness={0.2} />
-       </mesh>
-       <mesh position={[0, 1.0, 0]} rotation={[Math.PI / 2, 0, 0]} castShadow>
-            <torusKnotGeometry args={[0.22, 0.04, 64, 8, 2, 3]} /> 
-            <meshStandardMaterial color={ribbonColor} metalness={0.3} roughness={0.2} />
-       </mesh>
+    <group>
+      <instancedMesh ref={boxRef} args={[boxGeometry, undefined, MAX_GIFTS]} castShadow receiveShadow frustumCulled={false}>
+        <meshStandardMaterial roughness={0.3} />
+      </instancedMesh>
+      <instancedMesh ref={ribbonRef} args={[ribbonGeometry, undefined, MAX_GIFTS]} castShadow frustumCulled={false}>
+        <meshStandardMaterial metalness={0.3} roughness={0.2} />
+      </instancedMesh>
     </group>
-  )
+  );
 }
 
 /**
  * Sub-Component: Foliage (Particle System)
  */
-const Foliage = ({ progressRef }: { progressRef: React.MutableRefObject<number> }) => {
-  const count = 9000;
+const Foliage = ({ count, shape, formation, seed, palette, music, progressRef, burstRef }: { count: number, shape: TreeShape, formation: Formation, seed: number, palette: ThemeColors, music: MusicLevels, progressRef: React.MutableRefObject<number>, burstRef: React.MutableRefObject<number> }) => {
+  const maxCount = MAX_FOLIAGE;
   const meshRef = useRef<THREE.Points>(null);
   
-  const { aTargetPos, aChaosPos, aRandom } = useMemo(() => {
-    const target = new Float32Array(count * 3);
-    const chaos = new Float32Array(count * 3);
-    const random = new Float32Array(count);
-
-    for (let i = 0; i < count; i++) {
-      const t = 1 - Math.sqrt((i + 1) / (count + 1));
-      const theta = i * GOLDEN_ANGLE;
-      const tPos = getTreePos(t, theta, TREE_HEIGHT, TREE_WIDTH);
+  // Shape-independent, and fixed by the layout seed: each slot's spot on the tree, jitter, formation seed and random
+  const { spots, noise, seeds, aRandom } = useMemo(() => {
+    const random = createRandom(seed);
+    const spots = new Float32Array(maxCount * 2);
+    const noise = new Float32Array(maxCount * 3);
+    const particleRandom = new Float32Array(maxCount);
+
+    // Buffer slots hold the spiral in shuffled order, so drawing any prefix still covers the whole tree
+    const order = shuffledIndices(maxCount, random);
+
+    for (let slot = 0; slot < maxCount; slot++) {
+      const i = order[slot];
+      spots[slot * 2] = 1 - Math.sqrt((i + 1) / (maxCount + 1));
+      spots[slot * 2 + 1] = i * GOLDEN_ANGLE;
       
       const noiseAmp = 0.05;
-      tPos.x += (Math.random() - 0.5) * noiseAmp;
-      tPos.y += (Math.random() - 0.5) * noiseAmp;
-      tPos.z += (Math.random() - 0.5) * noiseAmp;
-      
-      target[i * 3] = tPos.x;
-      target[i * 3 + 1] = tPos.y;
-      target[i * 3 + 2] = tPos.z;
+      noise[slot * 3] = (random() - 0.5) * noiseAmp;
+      noise[slot * 3 + 1] = (random() - 0.5) * noiseAmp;
+      noise[slot * 3 + 2] = (random() - 0.5) * noiseAmp;
 
-      const cPos = getChaosPos(125); 
-      chaos[i * 3] = cPos.x;
-      chaos[i * 3 + 1] = cPos.y;
-      chaos[i * 3 + 2] = cPos.z;
-
-      random[i] = Math.random();
+      particleRandom[slot] = random();
     }
-    return { aTargetPos: target, aChaosPos: chaos, aRandom: random };
-  }, []);
+    return {
+      spots,
+      noise,
+      seeds: createSeeds(maxCount, random),
+      aRandom: new THREE.BufferAttribute(particleRandom, 1),
+    };
+  }, [seed]);
+
+  const targets = useMemo(() => {
+    const target = new Float32Array(maxCount * 3);
+    const point = new THREE.Vector3();
+    for (let slot = 0; slot < maxCount; slot++) {
+      getTreePoint(shape, spots[slot * 2], spots[slot * 2 + 1], 1, point).toArray(target, slot * 3);
+      target[slot * 3] += noise[slot * 3];
+      target[slot * 3 + 1] += noise[slot * 3 + 1];
+      target[slot * 3 + 2] += noise[slot * 3 + 2];
+    }
+    return target;
+  }, [spots, noise, shape]);
+
+  const morph = useShapeMorph(targets);
+  const aChaosPos = useFormationPositions(formation, seeds, 125);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
     uProgress: { value: 0 },
     uSize: { value: 1.8 }, 
-  }), []);
+    uMorph: morph.uniform,
+    uTreeHeight: { value: shape.height },
+    uFall: { value: 0 },
+    uColorDeep: { value: palette.foliage.deep },
+    uColorMid: { value: palette.foliage.mid },
+    uColorTop: { value: palette.foliage.top },
+  }), [morph, palette]);
 
   useFrame((state) => {
     if (meshRef.current) {
       const mat = meshRef.current.material as THREE.ShaderMaterial;
       mat.uniforms.uTime.value = state.clock.elapsedTime;
       mat.uniforms.uProgress.value = THREE.MathUtils.lerp(mat.uniforms.uProgress.value, progressRef.current, 0.1);
+      // Pulses with the bass
+      mat.uniforms.uSize.value = 1.8 * (1 + burstRef.current * 0.8 + music.bass * 0.5);
+      mat.uniforms.uTreeHeight.value = THREE.MathUtils.lerp(mat.uniforms.uTreeHeight.value, shape.height, 0.1);
+      mat.uniforms.uFall.value = formation.id === 'snowfall' ? SNOWFALL_SPEED : 0;
     }
   });
 
   return (
     <points ref={meshRef}>
-      <bufferGeometry>
-        <bufferAttribute attach="attributes-position" count={count} array={aTargetPos} itemSize={3} />
-        <bufferAttribute attach="attributes-aTargetPos" count={count} array={aTargetPos} itemSize={3} />
-        <bufferAttribute attach="attributes-aChaosPos" count={count} array={aChaosPos} itemSize={3} />
-        <bufferAttribute attach="attributes-aRandom" count={count} array={aRandom} itemSize={1} />
+      {/* Quality changes only move the draw range; the buffers stay put */}
+      <bufferGeometry drawRange={{ start: 0, count }}>
+        <primitive attach="attributes-position" object={morph.target} />
+        <primitive attach="attributes-aTargetPos" object={morph.target} />
+        <primitive attach="attributes-aPrevTargetPos" object={morph.previous} />
+        <primitive attach="attributes-aChaosPos" object={aChaosPos} />
+        <primitive attach="attributes-aRandom" object={aRandom} />
       </bufferGeometry>
       <shaderMaterial
         vertexShader={foliageVertexShader}
@@ -513,113 +656,142 @@ const Foliage = ({ progressRef }: { progressRef: React.MutableRefObject<number>
 
 /**
  * Sub-Component: Ornaments (Balls & Gifts)
+ * One instanced draw per layer. Positions, scale and spin come from per-instance attributes
+ * and the uniforms LuxuryTree shares between layers, so nothing is updated per ornament in JS.
  */
+interface OrnamentUniforms {
+  uTime: { value: number };
+  uProgress: { value: number };
+  uSpin: { value: THREE.Vector2 };
+  uFall: { value: number };
+}
+
+// Shared by the fairy-light layers, on top of the ornament uniforms (see LightSequences)
+interface LightUniforms {
+  uLightTime: { value: number };
+  uLightPattern: { value: number };
+  uLightPrevious: { value: number };
+  uLightBlend: { value: number };
+  uLightBrightness: { value: number };
+  uLightFlash: { value: number };
+}
+
 const OrnamentLayer = ({ 
   count, 
   color, 
   geometry, 
   scaleBase,
-  progressRef,
-  emissiveIntensity = 0.3
+  shape,
+  formation,
+  seed,
+  uniforms,
+  emissiveIntensity = 0.3,
+  lightUniforms,
+  lightGroup = 0
 }: { 
   count: number, 
-  color: string, 
+  color: THREE.Color, // Live theme colour, shared with the material
   geometry: THREE.BufferGeometry, 
   scaleBase: number,
-  progressRef: React.MutableRefObject<number>,
-  emissiveIntensity?: number
+  shape: TreeShape,
+  formation: Formation,
+  seed: number,
+  uniforms: OrnamentUniforms,
+  emissiveIntensity?: number,
+  lightUniforms?: LightUniforms, // Makes this a fairy-light layer, animated by the light patterns
+  lightGroup?: number // Which blink group the layer's first light is in
 }) => {
-  const data = useMemo(() => {
-    return new Array(count).fill(0).map((_, i) => {
+  const targets = useMemo(() => {
+    const target = new Float32Array(count * 3);
+    const point = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
       const t = 1 - Math.sqrt((i + 1) / (count + 1));
       const theta = i * GOLDEN_ANGLE * 13.0; 
-      return {
-        target: getTreePos(t, theta, TREE_HEIGHT, TREE_WIDTH * 0.9),
-        chaos: getChaosPos(18),
-        scale: Math.random() * 0.5 + 0.5,
-        rotation: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0)
-      }
-    });
-  }, [count]);
-
-  return (
-    <Instances range={count} geometry={geometry}>
-      <meshStandardMaterial 
-        color={color} 
-        roughness={0.2} 
-        metalness={0.9} 
-        emissive={color}
-        emissiveIntensity={emissiveIntensity}
-      />
-      {data.map((d, i) => (
-        <OrnamentInstance 
-          key={i} 
-          data={d} 
-          scaleBase={scaleBase} 
-          progressRef={progressRef} 
-        />
-      ))}
-    </Instances>
-  );
-};
+      getTreePoint(shape, t, theta, 0.9, point).toArray(target, i * 3);
+    }
+    return target;
+  }, [count, shape]);
+
+  const morph = useShapeMorph(targets, true);
+  // Drawn in order per instance, so raising the count keeps the existing ornaments where they are
+  const { seeds, scale, rotation, light } = useMemo(() => {
+    const random = createRandom(seed);
+    const seeds = new Float32Array(count * 3);
+    const scale = new Float32Array(count);
+    const rotation = new Float32Array(count * 2);
+    const light = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      seeds[i * 3] = random();
+      seeds[i * 3 + 1] = random();
+      seeds[i * 3 + 2] = random();
+      scale[i] = scaleBase * (random() * 0.5 + 0.5);
+      rotation[i * 2] = random() * Math.PI;
+      rotation[i * 2 + 1] = random() * Math.PI;
+      // Fairy lights: height on the tree (same spot as the target), blink group, own random seed
+      light[i * 3] = 1 - Math.sqrt((i + 1) / (count + 1));
+      light[i * 3 + 1] = (i + lightGroup) % 2;
+      light[i * 3 + 2] = random();
+    }
+    return { seeds, scale, rotation, light };
+  }, [count, scaleBase, seed, lightGroup]);
+  const chaos = useFormationPositions(formation, seeds, 18, true);
+
+  const instancedGeometry = useMemo(() => {
+    const geo = new THREE.InstancedBufferGeometry();
+    geo.setIndex(geometry.index ? geometry.index.clone() : null);
+    Object.entries(geometry.attributes).forEach(([name, attribute]) => geo.setAttribute(name, attribute.clone()));
+
+    geo.setAttribute('aTargetPos', morph.target);
+    geo.setAttribute('aPrevTargetPos', morph.previous);
+    geo.setAttribute('aChaosPos', chaos);
+    geo.setAttribute('aScale', new THREE.InstancedBufferAttribute(scale, 1));
+    geo.setAttribute('aRotation', new THREE.InstancedBufferAttribute(rotation, 2));
+    if (lightUniforms) geo.setAttribute('aLight', new THREE.InstancedBufferAttribute(light, 3));
+    geo.instanceCount = count;
+    return geo;
+  }, [count, geometry, morph, chaos, scale, rotation, light, lightUniforms]);
 
-const OrnamentInstance = ({ data, scaleBase, progressRef }: any) => {
-  const ref = useRef<any>(null);
-  const { target, chaos, scale } = data;
-  const currentPos = useRef(target.clone());
+  const material = useMemo(() => {
+    const mat = new THREE.MeshStandardMaterial({
+      roughness: 0.2,
+      metalness: 0.9,
+      emissiveIntensity,
+    });
+    // Shared, not copied, so theme cross-fades reach the material without touching it
+    mat.color = color;
+    mat.emissive = color;
+    mat.onBeforeCompile = (shader) => {
+      Object.assign(shader.uniforms, uniforms, { uMorph: morph.uniform });
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${ornamentVertexHeader}`)
+        .replace('#include <beginnormal_vertex>', ornamentBeginNormal)
+        .replace('#include <begin_vertex>', ornamentBeginVertex);
+      if (!lightUniforms) return;
+      Object.assign(shader.uniforms, lightUniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${lightVertexHeader}`)
+        .replace(ornamentBeginVertex, `${ornamentBeginVertex}\n${lightBeginVertex}`);
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>\n${lightFragmentHeader}`)
+        .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>\n${lightEmissiveFragment}`);
+    };
+    // Every ornament layer compiles to the same program, and so does every light layer
+    mat.customProgramCacheKey = () => (lightUniforms ? 'ornament-light' : 'ornament-layer');
+    return mat;
+  }, [color, emissiveIntensity, uniforms, morph, lightUniforms]);
 
-  useFrame((state, delta) => {
-    if (!ref.current) return;
-    
-    const progress = progressRef.current;
-    const dest = progress > 0.5 ? chaos : target;
-    currentPos.current.lerp(dest, delta * 3);
+  useEffect(() => () => instancedGeometry.dispose(), [instancedGeometry]);
+  useEffect(() => () => material.dispose(), [material]);
 
-    ref.current.position.copy(currentPos.current);
-    
-    // Scale Logic
-    const s = scaleBase * scale * (1 - progress * 0.3);
-    ref.current.scale.set(s, s, s);
-    
-    // Rotation & Float Logic
-    if (progress > 0.8) {
-        // Floating (Disordered movement - Speed Increased 3x)
-        const time = state.clock.elapsedTime;
-        ref.current.position.y += Math.sin(time * 3.0 + chaos.x * 10) * 0.01;
-        ref.current.position.z += Math.cos(time * 3.0 + chaos.y * 10) * 0.01;
-
-        // Gentle disordered rotation (Speed Increased 3x)
-        ref.current.rotation.x += delta * 0.6;
-        ref.current.rotation.y += delta * 0.45;
-    } else {
-        // Standard Tree Spin
-        ref.current.rotation.x += delta;
-        ref.current.rotation.y += delta;
-    }
-  });
-
-  return <Instance ref={ref} />;
+  // Instances travel well outside the base geometry's bounds
+  return <mesh geometry={instancedGeometry} material={material} frustumCulled={false} />;
 };
 
 /**
- * Sub-Component: Message Card
+ * Sub-Component: Paper Card (curled sheet shared by message and photo cards)
  */
-const MessageCard = ({ text, styleIndex, isFocused }: { text: string, styleIndex: number, isFocused: boolean }) => {
-  const texture = useMemo(() => createMessageTexture(text, styleIndex), [text, styleIndex]);
-
-  // Create Curled Paper Geometry
-  const geometry = useMemo(() => {
-    const geo = new THREE.PlaneGeometry(0.7, 0.85, 16, 16);
-    const pos = geo.attributes.position;
-    for(let i=0; i < pos.count; i++){
-        const y = pos.getY(i); 
-        const v = (y + 0.425) / 0.85; 
-        const curl = 0.15 * Math.pow(1 - v, 3);
-        pos.setZ(i, pos.getZ(i) + curl);
-    }
-    geo.computeVertexNormals();
-    return geo;
-  }, []);
+const PaperCard = ({ texture, isFocused }: { texture: THREE.Texture | null, isFocused: boolean }) => {
+  const geometry = useMemo(() => createPaperGeometry(), []);
 
   return (
     <group>
@@ -642,214 +814,406 @@ const MessageCard = ({ text, styleIndex, isFocused }: { text: string, styleIndex
   );
 };
 
+/**
+ * Sub-Component: Message Card
+ */
+const MessageCard = ({ text, theme, isFocused }: { text: string, theme: StationeryTheme, isFocused: boolean }) => {
+  const texture = useMemo(() => createMessageTexture(text, theme), [text, theme]);
+
+  // Messages are editable, so release replaced canvas textures
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return <PaperCard texture={texture} isFocused={isFocused} />;
+};
+
+/**
+ * Sub-Component: Photo Card (user-uploaded Polaroid)
+ */
+const PhotoCard = ({ url, caption, isFocused }: { url: string, caption: string, isFocused: boolean }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  // Load without Suspense so a new upload doesn't blank the whole scene while decoding
+  useEffect(() => {
+    let cancelled = false;
+    new THREE.ImageLoader().load(url, (img) => {
+      if (!cancelled) setImage(img);
+    });
+    return () => { cancelled = true; };
+  }, [url]);
+
+  const texture = useMemo(() => (image ? createPhotoTexture(image, caption) : null), [image, caption]);
+
+  // Captions are editable too
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  return <PaperCard texture={texture} isFocused={isFocused} />;
+};
+
 /**
  * Sub-Component: Polaroids (Blessing Cards)
+ * All cards are two instanced meshes (face from a shared atlas, plain back) moved by one update loop.
+ * The focused card is drawn separately at full resolution.
  */
-const Polaroids = ({ progressRef }: { progressRef: React.MutableRefObject<number> }) => {
-  const count = 48;
-  const { isHandOpen } = useTreeStore();
+const Polaroids = ({ count, shape, formation, seed, sounds, progressRef }: { count: number, shape: TreeShape, formation: Formation, seed: number, sounds: Soundscape, progressRef: React.MutableRefObject<number> }) => {
+  const { isHandOpen, userPhotos, photoMode, blessings, cardThemes, customThemes } = useTreeStore();
+  const { camera } = useThree();
+  const frontRef = useRef<THREE.InstancedMesh>(null);
+  const backRef = useRef<THREE.InstancedMesh>(null);
+  const focusRef = useRef<THREE.Group>(null);
+  const messages = useMemo(() => {
+    const written = blessings.filter((m) => m.trim().length > 0);
+    return written.length > 0 ? written : DEFAULT_BLESSINGS;
+  }, [blessings]);
+  const themes = useMemo(() => {
+    const ids = cardThemes.length > 0 ? cardThemes : DEFAULT_CARD_THEMES;
+    return ids.map((id) => getStationeryTheme(id, customThemes));
+  }, [cardThemes, customThemes]);
   const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
 
   useEffect(() => {
     if (!isHandOpen) setFocusedIndex(null);
   }, [isHandOpen]);
 
-  const geometry = useMemo(() => new THREE.BoxGeometry(0.5, 0.625, 0.01), []);
-  const material = useMemo(() => new THREE.MeshStandardMaterial({ 
-    color: '#ffffff', 
-    roughness: 0.9,
-    metalness: 0.0 
-  }), []);
+  // A lower quality level may have removed the focused card
+  useEffect(() => {
+    setFocusedIndex((prev) => (prev !== null && prev >= count ? null : prev));
+  }, [count]);
 
   const data = useMemo(() => {
+    const random = createRandom(seed);
     return new Array(count).fill(0).map((_, i) => {
       const t = 1 - Math.sqrt((i+1)/(count+1));
       const theta = i * GOLDEN_ANGLE;
       
-      const target = getTreePos(t, theta, TREE_HEIGHT, TREE_WIDTH * 1.1);
-      const chaos = getChaosPos(15);
+      const target = getTreePoint(shape, t, theta, 1.1);
+      const formationSeed = [random(), random(), random()] as const;
       
       // IMPROVED LOGIC: 
       // Offsets tuned for "Readable Disorder"
       // Z-Roll reduced to +/- 0.5 (~28 deg) so cards don't look sideways
       const baseOffset = new THREE.Euler(
-        (Math.random() - 0.5) * 0.5, // X Tilt: +/- 14 deg
-        (Math.random() - 0.5) * 0.5, // Y Tilt: +/- 14 deg
-        (Math.random() - 0.5) * 0.5  // Z Roll: +/- 14 deg
+        (random() - 0.5) * 0.5, // X Tilt: +/- 14 deg
+        (random() - 0.5) * 0.5, // Y Tilt: +/- 14 deg
+        (random() - 0.5) * 0.5  // Z Roll: +/- 14 deg
       );
 
       // Animation: Each card has unique drifting speeds for the "breathing" effect
       const driftSpeed = new THREE.Vector3(
-        0.2 + Math.random() * 0.5,
-        0.2 + Math.random() * 0.5,
-        0.1 + Math.random() * 0.3
+        0.2 + random() * 0.5,
+        0.2 + random() * 0.5,
+        0.1 + random() * 0.3
       );
       
       const driftPhase = new THREE.Vector3(
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2
+        random() * Math.PI * 2,
+        random() * Math.PI * 2,
+        random() * Math.PI * 2
       );
 
       return {
+        t,
+        theta,
         target,
-        chaos,
+        formationSeed,
+        chaos: new THREE.Vector3(),
         baseOffset,
         driftSpeed,
-        driftPhase
+        driftPhase,
+        // Animated state, carried between frames
+        pos: target.clone(),
+        scale: 1,
+        quaternion: new THREE.Quaternion(),
+      }
+    });
+  }, [count, seed]);
+
+  // A new tree shape moves the cards' places; they glide there in the update loop
+  useEffect(() => {
+    data.forEach((card) => getTreePoint(shape, card.t, card.theta, 1.1, card.target));
+  }, [data, shape]);
+
+  useEffect(() => {
+    data.forEach((card) => getFormationPoint(formation, card.formationSeed[0], card.formationSeed[1], card.formationSeed[2], 15, card.chaos));
+  }, [data, formation]);
+
+  // Photos take every other slot in 'mixed' mode, or every slot in 'photos' mode.
+  // Cards repeating a face share one atlas tile.
+  const { faces, faceOf } = useMemo(() => {
+    const faces: CardFace[] = [];
+    const faceOf: number[] = [];
+    const byKey = new Map<string, number>();
+    for (let i = 0; i < count; i++) {
+      const showPhoto = userPhotos.length > 0 && (photoMode === 'photos' || i % 2 === 0);
+      const photoIndex = photoMode === 'photos' ? i : i / 2;
+      const photo = showPhoto ? userPhotos[photoIndex % userPhotos.length] : null;
+      const themeIndex = i % themes.length;
+      const message = messages[i % messages.length];
+      const face: CardFace = photo
+        ? { key: `photo:${photo.id}`, kind: 'photo', url: photo.url, caption: photo.caption }
+        : { key: `message:${themeIndex}:${message}`, kind: 'message', text: message, theme: themes[themeIndex] };
+
+      let index = byKey.get(face.key);
+      if (index === undefined) {
+        index = faces.length;
+        byKey.set(face.key, index);
+        faces.push(face);
+      }
+      faceOf.push(index);
+    }
+    return { faces, faceOf };
+  }, [count, userPhotos, photoMode, messages, themes]);
+
+  const atlas = useMemo(() => createCardAtlas(faces.length), [faces]);
+
+  // Messages draw straight away; photos as they decode
+  useEffect(() => {
+    let cancelled = false;
+    faces.forEach((face, i) => {
+      if (face.kind === 'message') {
+        atlas.draw(i, renderMessageCard(face.text, face.theme));
+      } else {
+        new THREE.ImageLoader().load(face.url, (img) => {
+          if (!cancelled) atlas.draw(i, renderPhotoCard(img, face.caption));
+        });
       }
     });
+    return () => {
+      cancelled = true;
+      atlas.texture.dispose();
+    };
+  }, [atlas]);
+
+  const frontGeometry = useMemo(() => {
+    const geo = createPaperGeometry().translate(0, 0.08, 0.011);
+    geo.setAttribute('aUvRect', new THREE.InstancedBufferAttribute(new Float32Array(count * 4), 4));
+    return geo;
   }, [count]);
+  const backGeometry = useMemo(() => createPaperGeometry().translate(0, 0.08, 0.0105), []);
+  useEffect(() => () => frontGeometry.dispose(), [frontGeometry]);
 
-  return (
-    <group>
-      {data.map((d, i) => {
-        const message = BLESSINGS[i % BLESSINGS.length];
-        const styleIndex = i; 
-        return (
-          <SinglePolaroid 
-            key={i} 
-            data={d} 
-            progressRef={progressRef} 
-            geometry={geometry} 
-            material={material}
-            message={message}
-            styleIndex={styleIndex}
-            index={i}
-            isFocused={focusedIndex === i}
-            setFocusedIndex={setFocusedIndex}
-            isHandOpen={isHandOpen}
-          />
-        );
-      })}
-    </group>
-  );
-};
+  const uniforms = useMemo(() => ({
+    uAtlas: { value: null as THREE.Texture | null },
+    uTint: { value: new THREE.Color('#e0e0e0') },
+  }), []);
+
+  // Point each card at its face's tile
+  useLayoutEffect(() => {
+    const uvRects = frontGeometry.getAttribute('aUvRect') as THREE.InstancedBufferAttribute;
+    faceOf.forEach((face, i) => {
+      uvRects.array.set(atlas.rects.subarray(face * 4, face * 4 + 4), i * 4);
+    });
+    uvRects.needsUpdate = true;
+    uniforms.uAtlas.value = atlas.texture;
+  }, [frontGeometry, atlas, faceOf]);
+
+  // Front and back always move together
+  useLayoutEffect(() => {
+    if (frontRef.current && backRef.current) backRef.current.instanceMatrix = frontRef.current.instanceMatrix;
+  }, [count]);
+
+  // The card drawn nearest to a screen point (normalized, mirrored like handX)
+  const cardAt = (x: number, y: number) => {
+    const front = frontRef.current;
+    if (!front) return null;
+    // Point in NDC (y up)
+    const px = x * 2 - 1;
+    const py = 1 - y * 2;
+    const projected = new THREE.Vector3();
+    let nearest: number | null = null;
+    let nearestDist = Infinity;
+    data.forEach((card, i) => {
+      projected.copy(card.pos).applyMatrix4(front.matrixWorld).project(camera);
+      if (projected.z > 1) return; // Behind the camera
+      const d = Math.hypot(projected.x - px, projected.y - py);
+      if (d < nearestDist) {
+        nearestDist = d;
+        nearest = i;
+      }
+    });
+    return nearest;
+  };
+
+  // Gesture Mapping: pinch focuses the card under the fingers (or puts it back), swipes cycle through cards.
+  // Updates are functional so several gestures on one frame each apply on top of the last.
+  useEffect(() => subscribeGestures((event) => {
+    if (!isHandOpen) return;
+
+    if (event.type === 'pinch') {
+      setFocusedIndex((prev) => (prev !== null ? null : cardAt(event.x, event.y)));
+    } else if (event.type === 'swipe-left' || event.type === 'swipe-right') {
+      const step = event.type === 'swipe-right' ? 1 : -1;
+      setFocusedIndex((prev) => (prev === null ? 0 : (prev + step + count) % count));
+    }
+  }), [isHandOpen, data, count, camera]);
+
+  // Paper rustle from the card being picked up
+  useEffect(() => {
+    const card = focusedIndex !== null ? data[focusedIndex] : undefined;
+    if (card && frontRef.current) sounds.play('rustle', frontRef.current.localToWorld(card.pos.clone()));
+  }, [focusedIndex]);
 
-const SinglePolaroid = ({ 
-    data, 
-    progressRef, 
-    geometry, 
-    material, 
-    message, 
-    styleIndex,
-    index, 
-    isFocused,
-    setFocusedIndex,
-    isHandOpen
-}: any) => {
-  const groupRef = useRef<THREE.Group>(null);
-  const currentPos = useRef(data.target.clone());
-  const targetQuaternion = useRef(new THREE.Quaternion());
   const dummyObj = useMemo(() => new THREE.Object3D(), []);
+  const scratch = useMemo(() => ({
+    camPosLocal: new THREE.Vector3(),
+    camDir: new THREE.Vector3(),
+    focusPos: new THREE.Vector3(),
+    scale: new THREE.Vector3(),
+    matrix: new THREE.Matrix4(),
+  }), []);
 
   useFrame((state, delta) => {
-    if (!groupRef.current) return;
+    const front = frontRef.current;
+    if (!front) return;
     const progress = progressRef.current;
-    
-    // --- POSITION & ROTATION LOGIC ---
-    if (isFocused) {
-        // Focused: Fly to camera
-        const camPos = state.camera.position;
-        const camDir = new THREE.Vector3();
-        state.camera.getWorldDirection(camDir);
-        const target = camPos.clone().add(camDir.multiplyScalar(3.0));
-        
-        currentPos.current.lerp(target, delta * 5);
-        groupRef.current.position.copy(currentPos.current);
-        
-        const targetScale = 2.5;
-        groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), delta * 5);
+    const isScattered = progress > 0.5;
+    const time = state.clock.elapsedTime;
+    const { camPosLocal, camDir, focusPos, scale, matrix } = scratch;
 
-        dummyObj.position.copy(currentPos.current);
-        
-        // CORRECTION: Convert camera world position to local space of the parent
-        const camPosLocal = state.camera.position.clone();
-        if (groupRef.current.parent) {
-             groupRef.current.parent.worldToLocal(camPosLocal);
-        }
-        dummyObj.lookAt(camPosLocal);
-        
-        targetQuaternion.current.copy(dummyObj.quaternion);
+    // The cards live in the spinning tree, so work in its local space:
+    // the camera position to face, and the spot in front of the camera that a focused card flies to
+    front.worldToLocal(camPosLocal.copy(state.camera.position));
+    state.camera.getWorldDirection(camDir);
+    front.worldToLocal(focusPos.copy(state.camera.position).addScaledVector(camDir, 3.0));
 
-    } else {
+    data.forEach((card, i) => {
+      const isFocused = i === focusedIndex;
+
+      // --- POSITION & ROTATION LOGIC ---
+      if (isFocused) {
+        // Focused: Fly to camera
+        card.pos.lerp(focusPos, delta * 5);
+        card.scale = THREE.MathUtils.lerp(card.scale, 2.5, delta * 5);
+        dummyObj.position.copy(card.pos);
+        dummyObj.lookAt(camPosLocal);
+      } else {
         // Normal State (Tree or Chaos)
-        const dest = progress > 0.5 ? data.chaos : data.target;
-        currentPos.current.lerp(dest, delta * 2);
-        groupRef.current.position.copy(currentPos.current);
-        
-        const isScattered = progress > 0.5;
-        const baseScale = isScattered ? 3.0 : 1.0;
-        groupRef.current.scale.lerp(new THREE.Vector3(baseScale, baseScale, baseScale), delta * 2);
-
-        if (progress > 0.5) {
-            // Chaos State: Intelligent "Natural" Facing
-            
-            // 1. Position dummy at local pos
-            dummyObj.position.copy(currentPos.current);
-            
-            // 2. Face Camera (Account for Parent Rotation!)
-            // We must transform the camera's WORLD position into the parent's LOCAL space
-            const camPosLocal = state.camera.position.clone();
-            if (groupRef.current.parent) {
-                // Ensure we look at the camera correctly even if the parent (tree) is spinning
-                groupRef.current.parent.worldToLocal(camPosLocal);
-            }
-            dummyObj.lookAt(camPosLocal);
-            
-            // 3. Apply Random Static Offsets (Messiness)
-            // Note: We use the stored offsets which we will tune to be subtler
-            dummyObj.rotateX(data.baseOffset.x);
-            dummyObj.rotateY(data.baseOffset.y);
-            dummyObj.rotateZ(data.baseOffset.z);
-
-            // 4. Apply Gentle Breathing Motion (Life)
-            const t = state.clock.elapsedTime;
-            const oscX = Math.sin(t * data.driftSpeed.x + data.driftPhase.x) * 0.05; // Reduced sway
-            const oscY = Math.cos(t * data.driftSpeed.y + data.driftPhase.y) * 0.05; 
-
-            dummyObj.rotateX(oscX);
-            dummyObj.rotateY(oscY);
-
-            targetQuaternion.current.copy(dummyObj.quaternion);
+        card.pos.lerp(isScattered ? card.chaos : card.target, delta * 2);
+        card.scale = THREE.MathUtils.lerp(card.scale, isScattered ? 3.0 : 1.0, delta * 2);
+
+        if (isScattered) {
+          // Chaos State: face the camera, with random static offsets (messiness)
+          dummyObj.position.copy(card.pos);
+          dummyObj.lookAt(camPosLocal);
+          dummyObj.rotateX(card.baseOffset.x);
+          dummyObj.rotateY(card.baseOffset.y);
+          dummyObj.rotateZ(card.baseOffset.z);
+
+          // Gentle Breathing Motion (Life)
+          dummyObj.rotateX(Math.sin(time * card.driftSpeed.x + card.driftPhase.x) * 0.05);
+          dummyObj.rotateY(Math.cos(time * card.driftSpeed.y + card.driftPhase.y) * 0.05);
         } else {
-            // Tree State: Strict upright facing outward from center
-            const angle = Math.atan2(currentPos.current.x, currentPos.current.z);
-            dummyObj.rotation.set(0, angle, 0);
-            targetQuaternion.current.setFromEuler(dummyObj.rotation);
+          // Tree State: Strict upright facing outward from center
+          dummyObj.rotation.set(0, Math.atan2(card.pos.x, card.pos.z), 0);
         }
+      }
+
+      // Smoothly interpolate to the new smart rotation
+      card.quaternion.slerp(dummyObj.quaternion, delta * 4);
+
+      // The focused card is drawn at full resolution instead
+      scale.setScalar(isFocused ? 0 : card.scale);
+      front.setMatrixAt(i, matrix.compose(card.pos, card.quaternion, scale));
+    });
+
+    front.instanceMatrix.needsUpdate = true;
+    // Cards move every frame; let raycasting recompute their bounds when it needs them
+    front.boundingSphere = null;
+    if (backRef.current) backRef.current.boundingSphere = null;
+
+    if (focusRef.current && focusedIndex !== null) {
+      const card = data[focusedIndex];
+      focusRef.current.position.copy(card.pos);
+      focusRef.current.quaternion.copy(card.quaternion);
+      focusRef.current.scale.setScalar(card.scale);
     }
-    
-    // Smoothly interpolate to the new smart rotation
-    groupRef.current.quaternion.slerp(targetQuaternion.current, delta * 4);
   });
 
+  const focusedFace = focusedIndex !== null && focusedIndex < count ? faces[faceOf[focusedIndex]] : null;
+
   return (
-    <group 
-      ref={groupRef} 
-      onClick={(e) => {
-         if (isHandOpen) {
+    <group>
+      <group
+        onClick={(e) => {
+          if (isHandOpen && e.instanceId !== undefined) {
             e.stopPropagation();
-            setFocusedIndex(isFocused ? null : index);
-         }
-      }}
-      onPointerOver={() => { if(isHandOpen) document.body.style.cursor = 'pointer'; }}
-      onPointerOut={() => { document.body.style.cursor = 'auto'; }}
-    >
-      <MessageCard text={message} styleIndex={styleIndex} isFocused={isFocused} />
+            setFocusedIndex(e.instanceId);
+          }
+        }}
+        onPointerOver={() => { if(isHandOpen) document.body.style.cursor = 'pointer'; }}
+        onPointerOut={() => { document.body.style.cursor = 'auto'; }}
+      >
+        <instancedMesh ref={frontRef} args={[frontGeometry, undefined, count]} frustumCulled={false}>
+          <shaderMaterial
+            vertexShader={cardVertexShader}
+            fragmentShader={cardFragmentShader}
+            uniforms={uniforms}
+            transparent
+          />
+        </instancedMesh>
+        <instancedMesh ref={backRef} args={[backGeometry, undefined, count]} frustumCulled={false}>
+          <meshStandardMaterial color="#f5f5dc" side={THREE.BackSide} roughness={0.8} />
+        </instancedMesh>
+      </group>
+
+      {focusedFace && (
+        <group
+          ref={focusRef}
+          onClick={(e) => {
+            if (isHandOpen) {
+              e.stopPropagation();
+              setFocusedIndex(null);
+            }
+          }}
+          onPointerOver={() => { if(isHandOpen) document.body.style.cursor = 'pointer'; }}
+          onPointerOut={() => { document.body.style.cursor = 'auto'; }}
+        >
+          {focusedFace.kind === 'photo'
+            ? <PhotoCard url={focusedFace.url} caption={focusedFace.caption} isFocused />
+            : <MessageCard text={focusedFace.text} theme={focusedFace.theme} isFocused />}
+        </group>
+      )}
     </group>
   );
-}
+};
 
 
 /**
  * Main Component: LuxuryTree
  */
-const LuxuryTree: React.FC = () => {
+const LuxuryTree = ({ palette, music, sounds }: { palette: ThemeColors, music: MusicLevels, sounds: Soundscape }) => {
   const rotatingGroupRef = useRef<THREE.Group>(null);
-  const { isHandOpen } = useTreeStore();
+  const { isHandOpen, headline, ornamentCounts, treeShape, layoutSeed, qualityLevel, formation: formationSettings, lightShow } = useTreeStore();
+  // Every generator draws from its own stream of the layout seed
+  const seedFor = (name: string) => deriveSeed(layoutSeed, name);
+  const quality = QUALITY_PRESETS[qualityLevel];
+  const font = useLoader(FontLoader, HEADLINE_FONT_URL);
+  const [formationId, setFormationId] = useState(formationSettings.id);
+  const formation = useMemo(
+    () => resolveFormation(formationId, formationSettings, font, seedFor('formation')),
+    [formationId, formationSettings.text, formationSettings.silhouette, font, layoutSeed]
+  );
+  const hasOpenedRef = useRef(false);
+  const wasHandOpenRef = useRef(isHandOpen);
+  const ornaments = (n: number) => Math.round(n * quality.ornaments);
   const progressRef = useRef(0);
+  const burstRef = useRef(0); // 1 right after a thumbs-up, decays to 0
+  const twistAngleRef = useRef<number | null>(null);
   const ballGeo = useMemo(() => new THREE.SphereGeometry(1, 16, 16), []);
+  const ornamentUniforms = useMemo<OrnamentUniforms>(() => ({
+    uTime: { value: 0 },
+    uProgress: { value: 0 },
+    uSpin: { value: new THREE.Vector2() },
+    uFall: { value: 0 },
+  }), []);
+  const lightUniforms = useMemo<LightUniforms>(() => ({
+    uLightTime: { value: 0 },
+    uLightPattern: { value: 0 },
+    uLightPrevious: { value: 0 },
+    uLightBlend: { value: 1 },
+    uLightBrightness: { value: 1 },
+    uLightFlash: { value: 0 },
+  }), []);
+  const lightSequencer = useMemo(() => createLightSequencer(), []);
   const { viewport } = useThree();
 
   // Responsive Layout Check (Portrait vs Landscape)
@@ -860,13 +1224,42 @@ const LuxuryTree: React.FC = () => {
   const treeY = isPortrait ? -1.8 : 0;
   
   // 2. Text Positions & Size
+  // maxWidth keeps longer custom headlines clear of the tree
   const merryConfig = isPortrait 
-    ? { pos: [0, 5.0, 0] as [number, number, number], size: 0.8 } 
-    : { pos: [-6.5, 0, 0] as [number, number, number], size: 1.2 };
+    ? { pos: [0, 5.0, 0] as [number, number, number], size: 0.8, maxWidth: 8 } 
+    : { pos: [-6.5, 0, 0] as [number, number, number], size: 1.2, maxWidth: 7 };
     
   const xmasConfig = isPortrait 
-    ? { pos: [0, 4.0, 0] as [number, number, number], size: 0.8 } 
-    : { pos: [8.5, 0, 0] as [number, number, number], size: 1.2 };
+    ? { pos: [0, 4.0, 0] as [number, number, number], size: 0.8, maxWidth: 8 } 
+    : { pos: [8.5, 0, 0] as [number, number, number], size: 1.2, maxWidth: 10 };
+
+  useEffect(() => {
+    setFormationId(formationSettings.id);
+  }, [formationSettings.id]);
+
+  // Cycling: each open gesture after the first moves on to the next formation. The tree is
+  // formed when the hand opens, so the scatter positions change out of sight.
+  useEffect(() => {
+    if (!isHandOpen) return;
+    if (hasOpenedRef.current && formationSettings.cycle) setFormationId((id) => nextFormation(id, formationSettings));
+    hasOpenedRef.current = true;
+  }, [isHandOpen]);
+
+  // Whoosh as the tree scatters, chime as it re-forms
+  useEffect(() => {
+    if (wasHandOpenRef.current === isHandOpen) return;
+    wasHandOpenRef.current = isHandOpen;
+    const group = rotatingGroupRef.current;
+    if (group) sounds.play(isHandOpen ? 'scatter' : 'chime', group.getWorldPosition(new THREE.Vector3()));
+  }, [isHandOpen]);
+
+  // Thumbs-up: a burst of light (and a sparkle) from the star and foliage
+  useEffect(() => subscribeGestures((event) => {
+    if (event.type !== 'thumbs-up') return;
+    burstRef.current = 1;
+    const group = rotatingGroupRef.current;
+    if (group) sounds.play('sparkle', group.localToWorld(new THREE.Vector3(0, getTreeTop(treeShape), 0)));
+  }), [sounds, treeShape]);
 
   useFrame((state, delta) => {
     const target = isHandOpen ? 1 : 0;
@@ -875,9 +1268,47 @@ const LuxuryTree: React.FC = () => {
     const lerpSpeed = isHandOpen ? 4.0 : 10.0;
     
     progressRef.current = THREE.MathUtils.lerp(progressRef.current, target, delta * lerpSpeed);
+    burstRef.current = Math.max(0, burstRef.current - delta * 0.8);
+
+    // Ornaments: shared by every layer. They tumble steadily on the tree and drift more slowly when scattered
+    const isFloating = progressRef.current > 0.8;
+    ornamentUniforms.uTime.value = state.clock.elapsedTime;
+    ornamentUniforms.uProgress.value = progressRef.current;
+    ornamentUniforms.uSpin.value.x += delta * (isFloating ? 0.6 : 1.0);
+    ornamentUniforms.uSpin.value.y += delta * (isFloating ? 0.45 : 1.0);
+    ornamentUniforms.uFall.value = formation.id === 'snowfall' ? SNOWFALL_SPEED : 0;
+
+    // Fairy lights: the sequencer picks the pattern, the shader runs it per light
+    const light = lightSequencer.update(delta, lightShow);
+    lightUniforms.uLightTime.value = light.time;
+    lightUniforms.uLightPattern.value = light.pattern;
+    lightUniforms.uLightPrevious.value = light.previous;
+    lightUniforms.uLightBlend.value = light.blend;
+    lightUniforms.uLightBrightness.value = lightShow.brightness;
+    lightUniforms.uLightFlash.value = music.beat;
 
     if (rotatingGroupRef.current) {
-       rotatingGroupRef.current.rotation.y += delta * 0.1;
+       const rotation = rotatingGroupRef.current.rotation;
+       if (isHandOpen && formation.faceCamera) {
+         // Flat formations stop spinning and turn to face the front
+         const facing = Math.round(rotation.y / (Math.PI * 2)) * Math.PI * 2;
+         rotation.y = THREE.MathUtils.lerp(rotation.y, facing, delta * 2);
+       } else {
+         rotation.y += delta * 0.1;
+       }
+
+       // Two-hand twist (steering wheel): spin by the change in angle between the palms
+       const { left, right } = useTreeStore.getState().hands;
+       if (left && right) {
+         const angle = Math.atan2(right.y - left.y, right.x - left.x);
+         if (twistAngleRef.current !== null) {
+           const turn = THREE.MathUtils.euclideanModulo(angle - twistAngleRef.current + Math.PI, Math.PI * 2) - Math.PI;
+           rotation.y += turn * 2;
+         }
+         twistAngleRef.current = angle;
+       } else {
+         twistAngleRef.current = null;
+       }
     }
   });
 
@@ -886,31 +1317,35 @@ const LuxuryTree: React.FC = () => {
       {/* Tree Group: Moved down on mobile */}
       <group position={[0, treeY, 0]}>
         <group ref={rotatingGroupRef}>
-          <Foliage progressRef={progressRef} />
+          <Foliage count={quality.foliage} shape={treeShape} formation={formation} seed={seedFor('foliage')} palette={palette} music={music} progressRef={progressRef} burstRef={burstRef} />
 
           {/* Ornaments */}
-          <OrnamentLayer count={120} color="#ffcc00" geometry={ballGeo} scaleBase={0.15} progressRef={progressRef} emissiveIntensity={0.5} />
-          <OrnamentLayer count={90} color="#C0C0C0" geometry={ballGeo} scaleBase={0.15} progressRef={progressRef} emissiveIntensity={0.6} />
+          <OrnamentLayer count={ornaments(ornamentCounts.primary)} color={palette.ornaments.primary} geometry={ballGeo} scaleBase={0.15} shape={treeShape} formation={formation} seed={seedFor('ornaments-primary')} uniforms={ornamentUniforms} emissiveIntensity={0.5} />
+          <OrnamentLayer count={ornaments(ornamentCounts.secondary)} color={palette.ornaments.secondary} geometry={ballGeo} scaleBase={0.15} shape={treeShape} formation={formation} seed={seedFor('ornaments-secondary')} uniforms={ornamentUniforms} emissiveIntensity={0.6} />
 
-          <OrnamentLayer count={90} color="#800080" geometry={ballGeo} scaleBase={0.12} progressRef={progressRef} />
-          <OrnamentLayer count={60} color="#ff0000" geometry={ballGeo} scaleBase={0.08} progressRef={progressRef} />
+          <OrnamentLayer count={ornaments(ornamentCounts.accent)} color={palette.ornaments.accent} geometry={ballGeo} scaleBase={0.12} shape={treeShape} formation={formation} seed={seedFor('ornaments-accent')} uniforms={ornamentUniforms} />
+          <OrnamentLayer count={ornaments(ornamentCounts.small)} color={palette.ornaments.small} geometry={ballGeo} scaleBase={0.08} shape={treeShape} formation={formation} seed={seedFor('ornaments-small')} uniforms={ornamentUniforms} />
           
           {/* Lights */}
-          <OrnamentLayer count={24} color="#ff0055" geometry={ballGeo} scaleBase={0.06} progressRef={progressRef} emissiveIntensity={3.5} />
-          <OrnamentLayer count={24} color="#00ff55" geometry={ballGeo} scaleBase={0.06} progressRef={progressRef} emissiveIntensity={3.5} />
-          <OrnamentLayer count={24} color="#0055ff" geometry={ballGeo} scaleBase={0.06} progressRef={progressRef} emissiveIntensity={3.5} />
-          <OrnamentLayer count={24} color="#ffaa00" geometry={ballGeo} scaleBase={0.06} progressRef={progressRef} emissiveIntensity={3.5} />
+          <OrnamentLayer count={ornaments(ornamentCounts.lights)} color={palette.lights[0]} geometry={ballGeo} scaleBase={0.06} shape={treeShape} formation={formation} seed={seedFor('lights-0')} uniforms={ornamentUniforms} emissiveIntensity={3.5} lightUniforms={lightUniforms} lightGroup={0} />
+          <OrnamentLayer count={ornaments(ornamentCounts.lights)} color={palette.lights[1]} geometry={ballGeo} scaleBase={0.06} shape={treeShape} formation={formation} seed={seedFor('lights-1')} uniforms={ornamentUniforms} emissiveIntensity={3.5} lightUniforms={lightUniforms} lightGroup={1} />
+          <OrnamentLayer count={ornaments(ornamentCounts.lights)} color={palette.lights[2]} geometry={ballGeo} scaleBase={0.06} shape={treeShape} formation={formation} seed={seedFor('lights-2')} uniforms={ornamentUniforms} emissiveIntensity={3.5} lightUniforms={lightUniforms} lightGroup={2} />
+          <OrnamentLayer count={ornaments(ornamentCounts.lights)} color={palette.lights[3]} geometry={ballGeo} scaleBase={0.06} shape={treeShape} formation={formation} seed={seedFor('lights-3')} uniforms={ornamentUniforms} emissiveIntensity={3.5} lightUniforms={lightUniforms} lightGroup={3} />
 
-          <Polaroids progressRef={progressRef} />
+          <Polaroids count={quality.polaroids} shape={treeShape} formation={formation} seed={seedFor('cards')} sounds={sounds} progressRef={progressRef} />
 
-          <HolyStar progressRef={progressRef} />
-          <GiftPile progressRef={progressRef} />
+          <HolyStar shape={treeShape} palette={palette} music={music} progressRef={progressRef} burstRef={burstRef} />
+          <GiftPile count={quality.gifts} shape={treeShape} formation={formation} seed={seedFor('gifts')} palette={palette} progressRef={progressRef} />
         </group>
       </group>
       
       {/* Text Group: Independent positioning based on screen size */}
-      <ParticleText text="MERRY" position={merryConfig.pos} size={merryConfig.size} density={4000} progressRef={progressRef} />
-      <ParticleText text="CHRISTMAS" position={xmasConfig.pos} size={xmasConfig.size} density={5000} progressRef={progressRef} />
+      {headline.top && (
+        <ParticleText text={headline.top} fontFamily={headline.font} position={merryConfig.pos} size={merryConfig.size} maxWidth={merryConfig.maxWidth} seed={seedFor('headline-top')} palette={palette} density={Math.round(4000 * quality.textDensity)} progressRef={progressRef} />
+      )}
+      {headline.bottom && (
+        <ParticleText text={headline.bottom} fontFamily={headline.font} position={xmasConfig.pos} size={xmasConfig.size} maxWidth={xmasConfig.maxWidth} seed={seedFor('headline-bottom')} palette={palette} density={Math.round(5000 * quality.textDensity)} progressRef={progressRef} />
+      )}
 
     </group>
   );
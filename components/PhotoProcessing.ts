@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { UserPhoto } from '../types';
+import type { ResizeRequest, ResizeResponse } from './PhotoResizeWorker';
+
+// Longest edge of a stored photo. Cards are drawn on a 512px canvas, so anything bigger is wasted memory.
+const MAX_PHOTO_SIZE = 1024;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (blob: Blob) => void, reject: (err: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+
+  worker = new Worker(new URL('./PhotoResizeWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<ResizeResponse>) => {
+    const { id, blob, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (blob) request.resolve(blob);
+    else request.reject(new Error(error ?? 'Unknown resize error'));
+  };
+  // A worker that failed to load or crashed won't answer: fail everything it was given and
+  // start a fresh one on the next upload
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    const failure = new Error(`Photo worker failed: ${event.message || 'unknown error'}`);
+    pending.forEach((request) => request.reject(failure));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+// Fallback for browsers without OffscreenCanvas (older Safari): same work on the main thread
+const resizeOnMainThread = async (file: Blob, maxSize: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))), 'image/jpeg', 0.85);
+  });
+};
+
+const resizeImage = (file: Blob, maxSize: number): Promise<Blob> => {
+  const w = getWorker();
+  if (!w) return resizeOnMainThread(file, maxSize);
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    w.postMessage({ id, file, maxSize } as ResizeRequest);
+  });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// "IMG_2024_family-dinner.jpg" -> "IMG 2024 family dinner"
+const captionFromFileName = (name: string) => {
+  return name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim().slice(0, 24);
+};
+
+/**
+ * Decodes and downscales uploaded files into Polaroid-ready photos.
+ * Non-image files and images that fail to decode are skipped.
+ */
+export const processPhotoFiles = async (files: File[]): Promise<UserPhoto[]> => {
+  const images = files.filter((f) => f.type.startsWith('image/'));
+
+  const results = await Promise.all(images.map(async (file) => {
+    try {
+      const blob = await resizeImage(file, MAX_PHOTO_SIZE);
+      return {
+        id: uuidv4(),
+        url: await blobToDataUrl(blob),
+        caption: captionFromFileName(file.name),
+      } as UserPhoto;
+    } catch (error) {
+      console.error(`Could not process photo "${file.name}":`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((p): p is UserPhoto => p !== null);
+};
@@ -0,0 +1,39 @@
+/**
+ * Photo Resize Worker
+ * Decodes an uploaded image and downscales it with an OffscreenCanvas,
+ * keeping large camera photos off the main (render) thread.
+ */
+export interface ResizeRequest {
+  id: number;
+  file: Blob;
+  maxSize: number;
+}
+
+export interface ResizeResponse {
+  id: number;
+  blob?: Blob;
+  error?: string;
+}
+
+self.onmessage = async (event: MessageEvent<ResizeRequest>) => {
+  const { id, file, maxSize } = event.data;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+    self.postMessage({ id, blob } as ResizeResponse);
+  } catch (error) {
+    self.postMessage({ id, error: String(error) } as ResizeResponse);
+  }
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTreeStore } from '../store';
+import { processPhotoFiles } from './PhotoProcessing';
+
+const PhotoUploader: React.FC = () => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const userPhotos = useTreeStore((state) => state.userPhotos);
+  const photoMode = useTreeStore((state) => state.photoMode);
+  const addUserPhotos = useTreeStore((state) => state.addUserPhotos);
+  const removeUserPhoto = useTreeStore((state) => state.removeUserPhoto);
+  const setPhotoCaption = useTreeStore((state) => state.setPhotoCaption);
+  const setPhotoMode = useTreeStore((state) => state.setPhotoMode);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsProcessing(true);
+    try {
+      addUserPhotos(await processPhotoFiles(Array.from(files)));
+      setIsOpen(true);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Accept drops anywhere on the page, not just on the panel
+  useEffect(() => {
+    let dragDepth = 0;
+
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth++;
+      setIsDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) setIsDragging(false);
+    };
+    const onDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth = 0;
+      setIsDragging(false);
+      handleFiles(e.dataTransfer?.files ?? null);
+    };
+
+    window.addEventListener('dragenter', onDragEnter);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, []);
+
+  return (
+    <>
+      {/* Full-screen drop hint while files are dragged over the window */}
+      {isDragging && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm border-4 border-dashed border-amber-400/60 pointer-events-none">
+          <span className="font-mono text-amber-200 text-sm tracking-widest">DROP PHOTOS TO HANG THEM ON THE TREE</span>
+        </div>
+      )}
+
+      <div className="absolute bottom-12 left-4 z-50 flex flex-col items-start font-mono text-xs">
+        {isOpen && (
+          <div className="mb-2 w-72 p-3 rounded-lg border border-white/20 bg-black/60 backdrop-blur-md text-white/80">
+            {/* Drop Zone / File Picker */}
+            <button
+              onClick={() => inputRef.current?.click()}
+              className="w-full py-4 rounded border border-dashed border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+            >
+              {isProcessing ? 'Processing...' : 'Click or drop photos here'}
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+
+            {/* Mix Mode */}
+            <div className="flex gap-2 mt-3">
+              {(['mixed', 'photos'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setPhotoMode(mode)}
+                  className={`flex-1 py-1 rounded border transition-colors ${
+                    photoMode === mode
+                      ? 'border-amber-400/70 bg-amber-500/20 text-amber-200'
+                      : 'border-white/20 text-white/60'
+                  }`}
+                >
+                  {mode === 'mixed' ? 'Photos + Blessings' : 'Photos Only'}
+                </button>
+              ))}
+            </div>
+
+            {/* Uploaded Photos with editable captions */}
+            {userPhotos.length > 0 && (
+              <div className="mt-3 max-h-60 overflow-y-auto space-y-2">
+                {userPhotos.map((photo) => (
+                  <div key={photo.id} className="flex items-center gap-2">
+                    <img src={photo.url} alt="" className="w-10 h-10 object-cover rounded" />
+                    <input
+                      value={photo.caption}
+                      maxLength={24}
+                      placeholder="Caption"
+                      onChange={(e) => setPhotoCaption(photo.id, e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+                    />
+                    <button
+                      onClick={() => removeUserPhoto(photo.id)}
+                      className="px-2 text-white/50 hover:text-red-400"
+                      aria-label="Remove photo"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-4 py-2 rounded-full backdrop-blur-md border bg-amber-500/20 border-amber-500/50 text-amber-200"
+        >
+          {isOpen ? 'Close' : `Photos (${userPhotos.length})`}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default PhotoUploader;
@@ -0,0 +1,120 @@
+import { QualityLevel } from '../types';
+
+/**
+ * Quality Manager
+ * Rendering presets, and a governor that walks between them from measured frame time.
+ * Everything a preset changes can be applied to the running scene: particle layers shrink
+ * their draw range or rebuild their own buffers, and DPR / bloom / shadows are renderer state.
+ */
+
+export interface QualityPreset {
+  label: string;
+  foliage: number; // Foliage particles
+  textDensity: number; // Multiplier on headline particle density
+  gifts: number;
+  polaroids: number;
+  ornaments: number; // Multiplier on the configured ornament counts
+  ambient: number; // Multiplier on background stars and sparkles
+  maxDpr: number; // Upper bound on the device pixel ratio
+  bloom: boolean;
+  shadows: boolean;
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+// 'high' is the original hand-tuned scene
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: { label: 'Low', foliage: 3500, textDensity: 0.4, gifts: 25, polaroids: 24, ornaments: 0.4, ambient: 0.3, maxDpr: 1, bloom: false, shadows: false },
+  medium: { label: 'Medium', foliage: 6000, textDensity: 0.7, gifts: 45, polaroids: 36, ornaments: 0.7, ambient: 0.6, maxDpr: 1.5, bloom: true, shadows: false },
+  high: { label: 'High', foliage: 9000, textDensity: 1, gifts: 70, polaroids: 48, ornaments: 1, ambient: 1, maxDpr: 2, bloom: true, shadows: true },
+  ultra: { label: 'Ultra', foliage: 14000, textDensity: 1.4, gifts: 160, polaroids: 96, ornaments: 1.3, ambient: 1.3, maxDpr: 3, bloom: true, shadows: true },
+};
+
+// Layers size their buffers once for the largest preset, then draw a prefix of them
+export const MAX_FOLIAGE = Math.max(...QUALITY_LEVELS.map((l) => QUALITY_PRESETS[l].foliage));
+export const MAX_GIFTS = Math.max(...QUALITY_LEVELS.map((l) => QUALITY_PRESETS[l].gifts));
+
+// Below ~45fps drop a level; a steady ~55fps or better may try the next one up
+const SLOW_FRAME_MS = 22;
+const FAST_FRAME_MS = 18;
+const SAMPLE_WINDOW_MS = 2000;
+// Changing level causes a hitch (buffers rebuild, shaders recompile): let it settle before judging
+const SETTLE_MS = 1500;
+// Each failed step up doubles the wait before the next attempt, so a borderline device doesn't oscillate
+const BASE_UPGRADE_WAIT_MS = 4000;
+const MAX_UPGRADE_WAIT_MS = 60000;
+// Longer gaps are a hidden tab or a debugger pause, not rendering cost
+const MAX_SAMPLE_MS = 250;
+
+export interface QualityGovernor {
+  /** Feed one frame's duration; returns a level when it's time to change. */
+  update: (frameMs: number) => QualityLevel | null;
+  reset: (level: QualityLevel) => void;
+}
+
+export const createQualityGovernor = (initial: QualityLevel): QualityGovernor => {
+  let level = initial;
+  let settleMs = SETTLE_MS;
+  let windowMs = 0;
+  let windowFrames = 0;
+  let fastMs = 0;
+  let upgradeWaitMs = BASE_UPGRADE_WAIT_MS;
+  let lastChange: 'up' | 'down' | null = null;
+
+  const reset = (next: QualityLevel) => {
+    level = next;
+    settleMs = SETTLE_MS;
+    windowMs = 0;
+    windowFrames = 0;
+    fastMs = 0;
+    upgradeWaitMs = BASE_UPGRADE_WAIT_MS;
+    lastChange = null;
+  };
+
+  const step = (direction: 'up' | 'down'): QualityLevel | null => {
+    const index = QUALITY_LEVELS.indexOf(level) + (direction === 'up' ? 1 : -1);
+    if (index < 0 || index >= QUALITY_LEVELS.length) return null;
+
+    // Stepping straight back down after stepping up means that level is out of reach for now
+    if (direction === 'down' && lastChange === 'up') upgradeWaitMs = Math.min(upgradeWaitMs * 2, MAX_UPGRADE_WAIT_MS);
+    level = QUALITY_LEVELS[index];
+    lastChange = direction;
+    settleMs = SETTLE_MS;
+    windowMs = 0;
+    windowFrames = 0;
+    fastMs = 0;
+    return level;
+  };
+
+  const update = (frameMs: number): QualityLevel | null => {
+    if (!(frameMs > 0) || frameMs > MAX_SAMPLE_MS) return null;
+    if (settleMs > 0) {
+      settleMs -= frameMs;
+      return null;
+    }
+
+    windowMs += frameMs;
+    windowFrames++;
+    if (windowMs < SAMPLE_WINDOW_MS) return null;
+
+    const average = windowMs / windowFrames;
+    const elapsed = windowMs;
+    windowMs = 0;
+    windowFrames = 0;
+
+    if (average > SLOW_FRAME_MS) return step('down');
+
+    fastMs = average < FAST_FRAME_MS ? fastMs + elapsed : 0;
+    return fastMs >= upgradeWaitMs ? step('up') : null;
+  };
+
+  return { update, reset };
+};
+
+/**
+ * The device pixel ratio a preset renders at on this screen.
+ */
+export const presetDpr = (preset: QualityPreset) => {
+  const deviceRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  return Math.min(deviceRatio, preset.maxDpr);
+};
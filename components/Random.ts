@@ -0,0 +1,44 @@
+/**
+ * Seeded Randomness
+ * Layout generators draw from these streams instead of Math.random(), so one layout seed
+ * reproduces the whole tree. Each generator gets its own stream (see deriveSeed), so changing
+ * one layer's count doesn't reshuffle the others.
+ */
+
+export type RandomSource = () => number;
+
+export const DEFAULT_LAYOUT_SEED = 20241225;
+export const MAX_LAYOUT_SEED = 0xffffffff;
+
+/**
+ * A deterministic stream of numbers in [0, 1) (mulberry32: 32-bit state, plenty for placing particles).
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * The seed for one named generator under a layout seed (FNV-1a of both).
+ */
+export const deriveSeed = (seed: number, name: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of `${seed >>> 0}:${name}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// For "Shuffle": a fresh arrangement, not meant to be reproducible itself
+export const randomLayoutSeed = () => Math.floor(Math.random() * MAX_LAYOUT_SEED);
+
+export const isValidLayoutSeed = (seed: unknown): seed is number => {
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= MAX_LAYOUT_SEED;
+};
@@ -0,0 +1,116 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CALIBRATION, handToCamera } from './Calibration';
+import { createHandPipeline, LOST_HAND_GRACE_MS } from './HandPipeline';
+import { createSessionRecorder, parseSessionRecording, replaySession, SessionRecording, toDetections } from './SessionRecording';
+
+// 1.6s of a right hand at 20fps: held open, swiped to the right, then closed into a fist and held
+const fixture = readFileSync(new URL('./__fixtures__/swipe-then-fist.json', import.meta.url), 'utf8');
+// 1s of both hands held open side by side, close together (not spread), at 20fps
+const twoHandsFixture = readFileSync(new URL('./__fixtures__/two-hands-together.json', import.meta.url), 'utf8');
+
+// Takes one hand (by its recorded handedness label) out of the frames between two times
+const withoutHand = (recording: SessionRecording, label: string, from: number, to: number): SessionRecording => ({
+  ...recording,
+  frames: recording.frames.map((frame) => (frame.t >= from && frame.t <= to ? {
+    ...frame,
+    landmarks: frame.landmarks.filter((_, i) => frame.handedness[i] !== label),
+    handedness: frame.handedness.filter((h) => h !== label),
+  } : frame)),
+});
+
+describe('replaySession', () => {
+  it('replays the fixture into the same gesture events every time', () => {
+    const recording = parseSessionRecording(fixture);
+    const events = replaySession(recording, createHandPipeline()).flatMap((frame) => frame.events);
+
+    expect(events.map(({ type, timestamp }) => ({ type, timestamp }))).toEqual([
+      { type: 'swipe-right', timestamp: 400 },
+      { type: 'fist', timestamp: 650 },
+      { type: 'fist-hold', timestamp: 1450 },
+    ]);
+    expect(replaySession(recording, createHandPipeline())).toEqual(replaySession(recording, createHandPipeline()));
+  });
+
+  it('tracks the hand as the right hand and follows it from open to closed', () => {
+    const frames = replaySession(parseSessionRecording(fixture), createHandPipeline());
+
+    expect(frames.every((frame) => frame.primary?.side === 'right')).toBe(true);
+    expect(frames[5].isOpen).toBe(true);
+    expect(frames[frames.length - 1].isOpen).toBe(false);
+    expect(frames[frames.length - 1].active.type).toBe('fist');
+  });
+
+  it('holds an open hand through a short dropout, and lets go after a long one', () => {
+    const recording = parseSessionRecording(fixture);
+    // Blank out the detections between two times, as if the detector had missed the hand
+    const withGap = (from: number, to: number): SessionRecording => ({
+      ...recording,
+      frames: recording.frames.map((frame) => (frame.t >= from && frame.t <= to ? { ...frame, landmarks: [], handedness: [] } : frame)),
+    });
+
+    const short = replaySession(withGap(200, 200 + LOST_HAND_GRACE_MS - 50), createHandPipeline());
+    expect(short.slice(3, 8).every((frame) => frame.isOpen && frame.primary !== null)).toBe(true);
+
+    const long = replaySession(withGap(200, 350), createHandPipeline());
+    expect(long[7].primary).toBeNull();
+    expect(long[7].isOpen).toBe(false);
+  });
+
+  it('keeps both hands through a one-frame dropout of one of them', () => {
+    // MediaPipe's 'Left' is the user's right hand, which drives the camera and gestures
+    const frames = replaySession(withoutHand(parseSessionRecording(twoHandsFixture), 'Left', 500, 500), createHandPipeline());
+
+    expect(frames.every((frame) => frame.primary?.side === 'right')).toBe(true);
+    expect(frames.every((frame) => frame.hands.left !== null && frame.hands.right !== null)).toBe(true);
+    expect(frames.some((frame) => frame.isOpen)).toBe(false); // Together, so no scatter, though both hands are open
+    expect(frames.flatMap((frame) => frame.events)).toEqual([]);
+  });
+
+  it('does not swipe when a second hand joins', () => {
+    const frames = replaySession(withoutHand(parseSessionRecording(twoHandsFixture), 'Left', 0, 300), createHandPipeline());
+
+    expect(frames[0].primary?.side).toBe('left');
+    expect(frames[frames.length - 1].primary?.side).toBe('right');
+    expect(frames.flatMap((frame) => frame.events)).toEqual([]);
+  });
+
+  it('orbits the camera from the left to the right side of the tree with the swipe', () => {
+    const frames = replaySession(parseSessionRecording(fixture), createHandPipeline());
+    const cameraAt = (index: number) => {
+      const { x, y, z } = frames[index].primary!.state;
+      return handToCamera(x, y, z, DEFAULT_CALIBRATION);
+    };
+
+    const before = cameraAt(0);
+    const after = cameraAt(frames.length - 1);
+    expect(before.azimuth).toBeCloseTo(-0.5, 3);
+    expect(after.azimuth).toBeCloseTo(0.5, 3);
+    expect(after.elevation).toBeCloseTo(3, 3);
+    expect(after.distance).toBeCloseTo(25.8, 3);
+  });
+});
+
+describe('parseSessionRecording', () => {
+  it('reads back what the recorder wrote', () => {
+    const source = parseSessionRecording(fixture);
+    const recorder = createSessionRecorder();
+    recorder.start();
+    source.frames.forEach((frame) => recorder.record(toDetections(frame), 1000 + frame.t));
+
+    const copy = parseSessionRecording(JSON.stringify(recorder.stop()));
+    expect(copy.frames).toEqual(source.frames);
+  });
+
+  it('rejects files it cannot replay', () => {
+    const recording = JSON.parse(fixture);
+    const withFrames = (frames: unknown[]) => JSON.stringify({ ...recording, frames });
+
+    expect(() => parseSessionRecording('not json')).toThrow('Not a JSON file');
+    expect(() => parseSessionRecording('null')).toThrow('Unsupported recording version');
+    expect(() => parseSessionRecording(JSON.stringify({ ...recording, version: 2 }))).toThrow('Unsupported recording version: 2');
+    expect(() => parseSessionRecording(withFrames([]))).toThrow('Recording has no frames');
+    expect(() => parseSessionRecording(withFrames([recording.frames[1], recording.frames[0]]))).toThrow('Frame 1 is malformed');
+    expect(() => parseSessionRecording(withFrames([{ ...recording.frames[0], landmarks: [[[0, 0, 0]]] }]))).toThrow('Frame 0 is malformed');
+  });
+});
@@ -0,0 +1,164 @@
+import { Category } from '@mediapipe/tasks-vision';
+import { HandDetections, HandPipeline, PipelineFrame } from './HandPipeline';
+
+/**
+ * Session Recording
+ * Captures the timestamped landmark stream coming out of the detector, and plays it back
+ * in place of the HandLandmarker. Replays are deterministic: the same recording through the
+ * same pipeline settings always produces the same frames, which is what regression tests need.
+ *
+ * File format (JSON):
+ * { version: 1, createdAt, frames: [{ t, landmarks: [hand][point][x, y, z], handedness: ['Left' | 'Right'] }] }
+ * `t` is milliseconds since the first frame.
+ */
+
+export const RECORDING_VERSION = 1;
+
+// Five minutes at 60fps; longer sessions get unwieldy as JSON
+const MAX_RECORDED_FRAMES = 60 * 60 * 5;
+
+export interface RecordedFrame {
+  t: number;
+  landmarks: number[][][];
+  handedness: string[];
+}
+
+export interface SessionRecording {
+  version: number;
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+// 4 decimals is well below MediaPipe's own noise and keeps files small
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+export interface SessionRecorder {
+  start: () => void;
+  record: (detections: HandDetections, timestamp: number) => void;
+  stop: () => SessionRecording;
+  isRecording: () => boolean;
+}
+
+export const createSessionRecorder = (): SessionRecorder => {
+  let frames: RecordedFrame[] = [];
+  let startedAt: number | null = null;
+  let recording = false;
+
+  const start = () => {
+    frames = [];
+    startedAt = null;
+    recording = true;
+  };
+
+  const record = (detections: HandDetections, timestamp: number) => {
+    if (!recording || frames.length >= MAX_RECORDED_FRAMES) return;
+    if (startedAt === null) startedAt = timestamp;
+    frames.push({
+      t: round(timestamp - startedAt),
+      landmarks: (detections.landmarks ?? []).map((hand) => hand.map((p) => [round(p.x), round(p.y), round(p.z)])),
+      handedness: (detections.handedness ?? []).map((categories) => categories[0]?.categoryName ?? ''),
+    });
+  };
+
+  const stop = (): SessionRecording => {
+    recording = false;
+    return { version: RECORDING_VERSION, createdAt: new Date().toISOString(), frames };
+  };
+
+  return { start, record, stop, isRecording: () => recording };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isPoint = (p: unknown) => Array.isArray(p) && p.length === 3 && p.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+const isHand = (hand: unknown) => Array.isArray(hand) && hand.length === 21 && hand.every(isPoint);
+
+// Frames must be in time order, so each one is checked against the previous timestamp
+const isFrame = (frame: unknown, previous: number): frame is RecordedFrame => (
+  isRecord(frame) && typeof frame.t === 'number' && frame.t >= previous &&
+  Array.isArray(frame.landmarks) && frame.landmarks.every(isHand) &&
+  Array.isArray(frame.handedness) && frame.handedness.every((h) => typeof h === 'string')
+);
+
+/**
+ * Reads a recording file. Throws with a readable message if it isn't one we can replay.
+ */
+export const parseSessionRecording = (content: string): SessionRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!isRecord(data) || data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${isRecord(data) ? data.version : undefined}`);
+  }
+  if (!Array.isArray(data.frames) || data.frames.length === 0) throw new Error('Recording has no frames');
+
+  const frames: RecordedFrame[] = [];
+  data.frames.forEach((frame: unknown, i: number) => {
+    if (!isFrame(frame, frames.length > 0 ? frames[frames.length - 1].t : -Infinity)) throw new Error(`Frame ${i} is malformed`);
+    frames.push(frame);
+  });
+
+  return { version: RECORDING_VERSION, createdAt: typeof data.createdAt === 'string' ? data.createdAt : '', frames };
+};
+
+/**
+ * Rebuilds detector output (HandLandmarkerResult shape) from a recorded frame.
+ */
+export const toDetections = (frame: RecordedFrame): HandDetections => ({
+  landmarks: frame.landmarks.map((hand) => hand.map(([x, y, z]) => ({ x, y, z, visibility: 1 }))),
+  handedness: frame.handedness.map((label): Category[] => (
+    label ? [{ index: label === 'Left' ? 0 : 1, score: 1, categoryName: label, displayName: label }] : []
+  )),
+});
+
+export interface ReplaySource {
+  /** The recorded frame due at `timestamp` (null once a non-looping replay has finished). */
+  detect: (timestamp: number) => HandDetections | null;
+  reset: () => void;
+}
+
+/**
+ * Stands in for the HandLandmarker during live playback, pacing the recording by the wall clock.
+ */
+export const createReplaySource = (recording: SessionRecording, options: { loop: boolean }): ReplaySource => {
+  const { frames } = recording;
+  const duration = frames[frames.length - 1].t;
+  let startedAt: number | null = null;
+  let index = 0;
+
+  const detect = (timestamp: number) => {
+    if (startedAt === null) startedAt = timestamp;
+    let elapsed = timestamp - startedAt;
+
+    if (elapsed > duration) {
+      if (!options.loop) return null;
+      // Back to the first frame
+      startedAt = timestamp;
+      elapsed = 0;
+      index = 0;
+    }
+
+    while (index + 1 < frames.length && frames[index + 1].t <= elapsed) index++;
+    return toDetections(frames[index]);
+  };
+
+  const reset = () => {
+    startedAt = null;
+    index = 0;
+  };
+
+  return { detect, reset };
+};
+
+/**
+ * Runs every recorded frame through a pipeline at its recorded time, without a browser or a clock.
+ * This is the entry point for regression tests.
+ */
+export const replaySession = (recording: SessionRecording, pipeline: HandPipeline): PipelineFrame[] => {
+  pipeline.reset();
+  return recording.frames.map((frame) => pipeline.update(toDetections(frame), frame.t));
+};
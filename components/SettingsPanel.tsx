@@ -0,0 +1,491 @@
+import React, { useRef, useState } from 'react';
+import { MAX_ORNAMENT_COUNTS, useTreeStore } from '../store';
+import { createShareLink } from '../shareLink';
+import { ColorThemeId, FormationId, HandFilterSettings, LightShowSettings, OrnamentCounts, QualitySetting, TreeShapeId } from '../types';
+import { QUALITY_LEVELS, QUALITY_PRESETS } from './QualityManager';
+import { TREE_SHAPES, TREE_SIZE_LIMITS } from './TreeShapes';
+import { FORMATIONS, sampleSilhouette } from './Formations';
+import { MAX_LAYOUT_SEED, createRandom, deriveSeed, isValidLayoutSeed, randomLayoutSeed } from './Random';
+import { COLOR_THEMES, COLOR_THEME_IDS } from './ColorThemes';
+import { LIGHT_BRIGHTNESS_LIMITS, LIGHT_PATTERNS, LIGHT_SPEED_LIMITS } from './LightSequences';
+import BlessingEditor from './BlessingEditor';
+import StationeryEditor from './StationeryEditor';
+import CalibrationWizard from './CalibrationWizard';
+import TreeProfileEditor from './TreeProfileEditor';
+import LightProgramEditor from './LightProgramEditor';
+
+const ORNAMENT_LABELS: { key: keyof OrnamentCounts, label: string }[] = [
+  { key: 'primary', label: 'Large Baubles' },
+  { key: 'secondary', label: 'Metal Baubles' },
+  { key: 'accent', label: 'Medium Baubles' },
+  { key: 'small', label: 'Small Baubles' },
+  { key: 'lights', label: 'Lights (per colour)' },
+];
+
+// Hand smoothing: a lower cutoff is steadier but lags more; speed response cuts that lag on fast moves
+const HAND_FILTER_LABELS: { key: keyof HandFilterSettings, label: string, min: number, max: number, step: number, unit: string }[] = [
+  { key: 'minCutoff', label: 'Smoothing Cutoff', min: 0.2, max: 5, step: 0.1, unit: 'Hz' },
+  { key: 'beta', label: 'Speed Response', min: 0, max: 10, step: 0.5, unit: '' },
+  { key: 'openHoldMs', label: 'Open Hold', min: 0, max: 600, step: 25, unit: 'ms' },
+  { key: 'closeHoldMs', label: 'Close Hold', min: 0, max: 600, step: 25, unit: 'ms' },
+];
+
+// Empty value = the built-in 3D typeface; anything else is rasterized from CSS fonts
+const HEADLINE_FONTS = [
+  { value: '', label: '3D Classic (Latin only)' },
+  { value: 'sans-serif', label: 'System Sans' },
+  { value: 'serif', label: 'System Serif' },
+  { value: '"Caveat", cursive', label: 'Caveat' },
+  { value: '"Dancing Script", cursive', label: 'Dancing Script' },
+  { value: '"Great Vibes", cursive', label: 'Great Vibes' },
+];
+
+const Notice = ({ message, onDismiss }: { message: string, onDismiss: () => void }) => (
+  <div className="mt-2 max-w-xs px-3 py-2 rounded-lg border bg-red-500/20 border-red-500/50 text-red-200 backdrop-blur-md flex items-start gap-2">
+    <span className="flex-1">{message}</span>
+    <button onClick={onDismiss} aria-label="Dismiss">✕</button>
+  </div>
+);
+
+// Shown while a shared link is previewed: the user's own tree stays saved until they keep this one
+const SharedTreeBar = ({ onKeep, onDiscard }: { onKeep: () => void, onDiscard: () => void }) => (
+  <div className="mt-2 max-w-xs px-3 py-2 rounded-lg border bg-amber-500/20 border-amber-400/50 text-amber-100 backdrop-blur-md space-y-2">
+    <p>You are looking at a shared tree. Your own tree is still saved.</p>
+    <div className="flex gap-2">
+      <button onClick={onKeep} className="flex-1 py-1 rounded border border-amber-400/70 hover:text-amber-200">Keep this tree</button>
+      <button onClick={onDiscard} className="flex-1 py-1 rounded border border-white/30 hover:text-white">Back to mine</button>
+    </div>
+  </div>
+);
+
+// The shared link has been dealt with, so a reload shouldn't bring the preview back
+const dropShareFragment = () => history.replaceState(null, '', window.location.pathname + window.location.search);
+
+const SettingsPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const [isEditingMessages, setIsEditingMessages] = useState(false);
+  const [isEditingStyles, setIsEditingStyles] = useState(false);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [silhouetteError, setSilhouetteError] = useState<string | null>(null);
+  const silhouetteInputRef = useRef<HTMLInputElement>(null);
+  const storageWarning = useTreeStore((state) => state.storageWarning);
+  const shareNotice = useTreeStore((state) => state.shareNotice);
+  const isPreviewingShare = useTreeStore((state) => state.ownTree !== null);
+  const ornamentCounts = useTreeStore((state) => state.ornamentCounts);
+  const headline = useTreeStore((state) => state.headline);
+  const treeShape = useTreeStore((state) => state.treeShape);
+  const layoutSeed = useTreeStore((state) => state.layoutSeed);
+  const colorTheme = useTreeStore((state) => state.colorTheme);
+  const formation = useTreeStore((state) => state.formation);
+  const setFormation = useTreeStore((state) => state.setFormation);
+  const lightShow = useTreeStore((state) => state.lightShow);
+  const setLightShow = useTreeStore((state) => state.setLightShow);
+  const sound = useTreeStore((state) => state.sound);
+  const setSound = useTreeStore((state) => state.setSound);
+  const handFilter = useTreeStore((state) => state.handFilter);
+  const setHandFilter = useTreeStore((state) => state.setHandFilter);
+  const calibrationProfiles = useTreeStore((state) => state.calibrationProfiles);
+  const activeProfileId = useTreeStore((state) => state.activeProfileId);
+  const setActiveProfile = useTreeStore((state) => state.setActiveProfile);
+  const removeCalibrationProfile = useTreeStore((state) => state.removeCalibrationProfile);
+  const inputSource = useTreeStore((state) => state.inputSource);
+  const quality = useTreeStore((state) => state.quality);
+  const qualityLevel = useTreeStore((state) => state.qualityLevel);
+  const setQuality = useTreeStore((state) => state.setQuality);
+  const setStorageWarning = useTreeStore((state) => state.setStorageWarning);
+  const setShareNotice = useTreeStore((state) => state.setShareNotice);
+  const applyTreeConfig = useTreeStore((state) => state.applyTreeConfig);
+  const resetToDefaults = useTreeStore((state) => state.resetToDefaults);
+  const keepSharedTree = useTreeStore((state) => state.keepSharedTree);
+  const discardSharedTree = useTreeStore((state) => state.discardSharedTree);
+
+  const handleReset = () => {
+    if (window.confirm('Reset the tree to its defaults? Uploaded photos will be removed.')) {
+      resetToDefaults();
+      dropShareFragment();
+    }
+  };
+
+  const handleSilhouette = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const random = createRandom(deriveSeed(useTreeStore.getState().layoutSeed, 'silhouette'));
+      const silhouette = await sampleSilhouette(file, random);
+      setFormation({ ...useTreeStore.getState().formation, id: 'image', silhouette });
+      setSilhouetteError(null);
+    } catch (error) {
+      console.error("Could not read silhouette picture:", error);
+      setSilhouetteError('No shape could be found in that picture.');
+    }
+  };
+
+  const handleShare = async () => {
+    const { blessings, headline, ornamentCounts, cardThemes, customThemes, treeShape, layoutSeed, colorTheme } = useTreeStore.getState();
+    const link = await createShareLink({ blessings, headline, ornamentCounts, cardThemes, customThemes, treeShape, layoutSeed, colorTheme });
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareStatus('Link copied! Photos stay on this device.');
+    } catch {
+      // Clipboard needs a secure context; fall back to a manual copy prompt
+      window.prompt('Copy this link to share your tree:', link);
+      setShareStatus(null);
+    }
+  };
+
+  return (
+    <div className="absolute top-4 left-4 z-50 flex flex-col items-start font-mono text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 rounded-full backdrop-blur-md border bg-white/10 border-white/30 text-white/70"
+      >
+        {isOpen ? 'Close' : 'Settings'}
+      </button>
+
+      {/* Problems and the shared-tree choice are shown even when the panel is closed */}
+      {isPreviewingShare && (
+        <SharedTreeBar
+          onKeep={() => { keepSharedTree(); dropShareFragment(); }}
+          onDiscard={() => { discardSharedTree(); dropShareFragment(); }}
+        />
+      )}
+      {shareNotice && <Notice message={shareNotice} onDismiss={() => setShareNotice(null)} />}
+      {storageWarning && <Notice message={storageWarning} onDismiss={() => setStorageWarning(null)} />}
+
+      {isOpen && (
+        <div className="mt-2 w-72 p-3 rounded-lg border border-white/20 bg-black/60 backdrop-blur-md text-white/80 space-y-3">
+          <button
+            onClick={() => setIsEditingMessages(true)}
+            className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+          >
+            Edit Card Messages
+          </button>
+          <button
+            onClick={() => setIsEditingStyles(true)}
+            className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+          >
+            Card Styles
+          </button>
+
+          {/* Headline */}
+          <div className="space-y-1">
+            {(['top', 'bottom'] as const).map((line) => (
+              <input
+                key={line}
+                value={headline[line]}
+                maxLength={32}
+                placeholder={line === 'top' ? 'First line' : 'Second line'}
+                onChange={(e) => applyTreeConfig({ headline: { ...headline, [line]: e.target.value } })}
+                className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+              />
+            ))}
+            <select
+              value={headline.font}
+              onChange={(e) => applyTreeConfig({ headline: { ...headline, font: e.target.value } })}
+              className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+            >
+              {HEADLINE_FONTS.map((f) => (
+                <option key={f.value} value={f.value} className="bg-black">{f.label}</option>
+              ))}
+            </select>
+            <div className="text-white/40">Characters the 3D font lacks (e.g. 圣诞快乐, Ёлка, 🎄) use a system font.</div>
+          </div>
+
+          {/* Colour Theme */}
+          <label className="flex items-center gap-2">
+            <span className="w-32 shrink-0">Colour Theme</span>
+            <select
+              value={colorTheme}
+              onChange={(e) => applyTreeConfig({ colorTheme: e.target.value as ColorThemeId })}
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+            >
+              {COLOR_THEME_IDS.map((id) => (
+                <option key={id} value={id} className="bg-black">{COLOR_THEMES[id].label}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Tree Shape */}
+          <div className="space-y-1">
+            <select
+              value={treeShape.id}
+              onChange={(e) => applyTreeConfig({ treeShape: { ...treeShape, id: e.target.value as TreeShapeId } })}
+              className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+            >
+              {TREE_SHAPES.map((shape) => (
+                <option key={shape.id} value={shape.id} className="bg-black">{shape.label}</option>
+              ))}
+            </select>
+            {(['height', 'width'] as const).map((key) => (
+              <label key={key} className="flex items-center gap-2">
+                <span className="w-32 shrink-0">{key === 'height' ? 'Tree Height' : 'Tree Width'}</span>
+                <input
+                  type="range"
+                  min={TREE_SIZE_LIMITS[key].min}
+                  max={TREE_SIZE_LIMITS[key].max}
+                  step={0.1}
+                  value={treeShape[key]}
+                  onChange={(e) => applyTreeConfig({ treeShape: { ...treeShape, [key]: Number(e.target.value) } })}
+                  className="flex-1 accent-amber-400"
+                />
+                <span className="w-8 text-right">{treeShape[key].toFixed(1)}</span>
+              </label>
+            ))}
+            {treeShape.id === 'custom' && (
+              <TreeProfileEditor
+                profile={treeShape.profile}
+                onChange={(profile) => applyTreeConfig({ treeShape: { ...treeShape, profile } })}
+              />
+            )}
+            {/* The same seed always places everything the same way */}
+            <label className="flex items-center gap-2">
+              <span className="w-32 shrink-0">Layout Seed</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_LAYOUT_SEED}
+                value={layoutSeed}
+                onChange={(e) => {
+                  const seed = Number(e.target.value);
+                  if (isValidLayoutSeed(seed)) applyTreeConfig({ layoutSeed: seed });
+                }}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+              />
+              <button
+                onClick={() => applyTreeConfig({ layoutSeed: randomLayoutSeed() })}
+                className="px-2 py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+              >
+                Shuffle
+              </button>
+            </label>
+          </div>
+
+          {/* Scatter Formation */}
+          <div className="space-y-1">
+            <label className="flex items-center gap-2">
+              <span className="w-32 shrink-0">Scatter Into</span>
+              <select
+                value={formation.id}
+                onChange={(e) => setFormation({ ...formation, id: e.target.value as FormationId })}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+              >
+                {FORMATIONS.map((f) => (
+                  <option key={f.id} value={f.id} className="bg-black">{f.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={formation.cycle} onChange={(e) => setFormation({ ...formation, cycle: e.target.checked })} />
+              <span>Next formation on every open hand</span>
+            </label>
+            {(formation.id === 'text' || formation.cycle) && (
+              <input
+                value={formation.text}
+                maxLength={16}
+                placeholder="Word to spell out"
+                onChange={(e) => setFormation({ ...formation, text: e.target.value })}
+                className="w-full px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+              />
+            )}
+            {(formation.id === 'image' || formation.cycle) && (
+              <>
+                <button
+                  onClick={() => silhouetteInputRef.current?.click()}
+                  className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors"
+                >
+                  {formation.silhouette.length > 0 ? 'Replace Silhouette Picture' : 'Choose Silhouette Picture'}
+                </button>
+                <input
+                  ref={silhouetteInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleSilhouette(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                {silhouetteError && <div className="text-red-300">{silhouetteError}</div>}
+                <div className="text-white/40">Logos and shapes on a plain or transparent background work best.</div>
+              </>
+            )}
+          </div>
+
+          {/* Ornaments */}
+          <div className="space-y-1">
+            {ORNAMENT_LABELS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2">
+                <span className="w-32 shrink-0">{label}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_ORNAMENT_COUNTS[key]}
+                  value={ornamentCounts[key]}
+                  onChange={(e) => applyTreeConfig({ ornamentCounts: { ...ornamentCounts, [key]: Number(e.target.value) } })}
+                  className="flex-1 accent-amber-400"
+                />
+                <span className="w-8 text-right">{ornamentCounts[key]}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Fairy Lights */}
+          <div className="space-y-1">
+            <label className="flex items-center gap-2">
+              <span className="w-32 shrink-0">Light Pattern</span>
+              <select
+                value={lightShow.pattern}
+                onChange={(e) => setLightShow({ ...lightShow, pattern: e.target.value as LightShowSettings['pattern'] })}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+              >
+                {LIGHT_PATTERNS.map((p) => (
+                  <option key={p.id} value={p.id} className="bg-black">{p.label}</option>
+                ))}
+                <option value="program" className="bg-black">Program</option>
+              </select>
+            </label>
+            {(['speed', 'brightness'] as const).map((key) => {
+              const limits = key === 'speed' ? LIGHT_SPEED_LIMITS : LIGHT_BRIGHTNESS_LIMITS;
+              return (
+                <label key={key} className="flex items-center gap-2">
+                  <span className="w-32 shrink-0">{key === 'speed' ? 'Light Speed' : 'Light Brightness'}</span>
+                  <input
+                    type="range"
+                    min={limits.min}
+                    max={limits.max}
+                    step={0.05}
+                    value={lightShow[key]}
+                    onChange={(e) => setLightShow({ ...lightShow, [key]: Number(e.target.value) })}
+                    className="flex-1 accent-amber-400"
+                  />
+                  <span className="w-8 text-right">{lightShow[key].toFixed(1)}</span>
+                </label>
+              );
+            })}
+            {lightShow.pattern === 'program' && (
+              <LightProgramEditor
+                program={lightShow.program}
+                onChange={(program) => setLightShow({ ...lightShow, program })}
+              />
+            )}
+          </div>
+
+          {/* Sound */}
+          <div className="space-y-1">
+            <label className="flex items-center gap-2">
+              <span className="w-32 shrink-0">Volume</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={sound.volume}
+                disabled={sound.muted}
+                onChange={(e) => setSound({ ...sound, volume: Number(e.target.value) })}
+                className="flex-1 accent-amber-400 disabled:opacity-30"
+              />
+              <span className="w-8 text-right">{Math.round(sound.volume * 100)}</span>
+            </label>
+            <div className="flex gap-3">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={sound.muted} onChange={(e) => setSound({ ...sound, muted: e.target.checked })} />
+                <span>Mute</span>
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={sound.ambience} onChange={(e) => setSound({ ...sound, ambience: e.target.checked })} />
+                <span>Winter wind</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Hand Input */}
+          <div className="space-y-1">
+            <div className="flex gap-1">
+              <select
+                value={activeProfileId ?? ''}
+                onChange={(e) => setActiveProfile(e.target.value || null)}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+              >
+                <option value="" className="bg-black">Uncalibrated</option>
+                {calibrationProfiles.map((p) => (
+                  <option key={p.id} value={p.id} className="bg-black">{p.name}</option>
+                ))}
+              </select>
+              {activeProfileId && (
+                <button
+                  onClick={() => removeCalibrationProfile(activeProfileId)}
+                  className="px-2 rounded border border-white/20 text-white/50 hover:text-red-300"
+                  aria-label="Delete profile"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+            <button
+              onClick={() => setIsCalibrating(true)}
+              disabled={inputSource !== 'camera'}
+              title={inputSource !== 'camera' ? 'Calibration needs the camera' : undefined}
+              className="w-full py-1 rounded border border-white/30 hover:border-amber-400/70 hover:text-amber-200 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+              Calibrate Hand Range
+            </button>
+            {HAND_FILTER_LABELS.map(({ key, label, min, max, step, unit }) => (
+              <label key={key} className="flex items-center gap-2">
+                <span className="w-32 shrink-0">{label}</span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={handFilter[key]}
+                  onChange={(e) => setHandFilter({ ...handFilter, [key]: Number(e.target.value) })}
+                  className="flex-1 accent-amber-400"
+                />
+                <span className="w-12 text-right">{handFilter[key]}{unit}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Rendering */}
+          <label className="flex items-center gap-2">
+            <span className="w-32 shrink-0">Quality</span>
+            <select
+              value={quality}
+              onChange={(e) => setQuality(e.target.value as QualitySetting)}
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none"
+            >
+              <option value="auto" className="bg-black">Auto ({QUALITY_PRESETS[qualityLevel].label})</option>
+              {QUALITY_LEVELS.map((level) => (
+                <option key={level} value={level} className="bg-black">{QUALITY_PRESETS[level].label}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Sharing */}
+          <div>
+            <button
+              onClick={handleShare}
+              className="w-full py-1 rounded border border-amber-400/50 text-amber-200 hover:bg-amber-500/20 transition-colors"
+            >
+              Copy Share Link
+            </button>
+            {shareStatus && <div className="mt-1 text-white/50">{shareStatus}</div>}
+          </div>
+
+          <button
+            onClick={handleReset}
+            className="w-full py-1 rounded border border-red-400/40 text-red-300 hover:bg-red-500/20 transition-colors"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      )}
+
+      {isEditingMessages && <BlessingEditor onClose={() => setIsEditingMessages(false)} />}
+      {isEditingStyles && <StationeryEditor onClose={() => setIsEditingStyles(false)} />}
+      {isCalibrating && <CalibrationWizard onClose={() => setIsCalibrating(false)} />}
+    </div>
+  );
+};
+
+export default SettingsPanel;
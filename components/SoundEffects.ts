@@ -0,0 +1,206 @@
+import * as THREE from 'three';
+import { SoundSettings } from '../types';
+
+/**
+ * Sound Effects
+ * A quiet winter-wind ambience and short cues for what happens in the scene: the whoosh of the
+ * tree scattering, a chime as it re-forms, a paper rustle when a card is picked, and a sparkle
+ * from the star. Everything is synthesized, so there are no sound files to load. Cues are placed
+ * in the scene and heard from the camera.
+ *
+ * Browsers only allow audio after the page has been clicked or typed into, so nothing plays
+ * (and cues are dropped, not queued) until unlock() has been called from such an event.
+ */
+
+export type SoundCue = 'scatter' | 'chime' | 'rustle' | 'sparkle';
+
+export const DEFAULT_SOUND: SoundSettings = {
+  volume: 0.7,
+  muted: false,
+  ambience: true,
+};
+
+const AMBIENCE_LEVEL = 0.12;
+const NOISE_SECONDS = 4; // Looped for the wind, cut from for the cues
+
+export interface Soundscape {
+  unlock: () => void;
+  apply: (settings: SoundSettings) => void;
+  play: (cue: SoundCue, position?: THREE.Vector3) => void;
+  /** Moves the listener to the camera; call every frame. */
+  setListener: (camera: THREE.Camera) => void;
+}
+
+// White noise, or brown noise (most of the hiss filtered out, like wind)
+const createNoise = (context: AudioContext, brown: boolean) => {
+  const buffer = context.createBuffer(1, NOISE_SECONDS * context.sampleRate, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    last = (last + 0.02 * white) / 1.02;
+    data[i] = brown ? last * 3.5 : white;
+  }
+  return buffer;
+};
+
+// A gain that swells to `peak` and dies away, starting at `start`
+const envelope = (context: AudioContext, start: number, attack: number, length: number, peak: number) => {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(peak, start + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + length);
+  return gain;
+};
+
+export const createSoundscape = (): Soundscape => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let white: AudioBuffer | null = null;
+  let wind: AudioBufferSourceNode | null = null;
+  let settings = DEFAULT_SOUND;
+  const forward = new THREE.Vector3();
+
+  const startAmbience = (ctx: AudioContext, out: GainNode) => {
+    const source = ctx.createBufferSource();
+    source.buffer = createNoise(ctx, true);
+    source.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 500;
+    // Gusts: a slow wobble on the level
+    const gain = ctx.createGain();
+    gain.gain.value = AMBIENCE_LEVEL;
+    const gust = ctx.createOscillator();
+    const gustDepth = ctx.createGain();
+    gust.frequency.value = 0.08;
+    gustDepth.gain.value = AMBIENCE_LEVEL * 0.6;
+    gust.connect(gustDepth).connect(gain.gain);
+    source.connect(filter).connect(gain).connect(out);
+    source.start();
+    gust.start();
+    source.onended = () => gust.stop();
+    return source;
+  };
+
+  const apply = (next: SoundSettings) => {
+    settings = next;
+    if (!context || !master) return;
+    master.gain.setTargetAtTime(settings.muted ? 0 : settings.volume, context.currentTime, 0.05);
+    if (settings.ambience && !wind) wind = startAmbience(context, master);
+    if (!settings.ambience && wind) {
+      wind.stop();
+      wind = null;
+    }
+  };
+
+  const unlock = () => {
+    if (!context) {
+      context = new AudioContext();
+      master = context.createGain();
+      master.gain.value = 0;
+      master.connect(context.destination);
+      white = createNoise(context, false);
+      apply(settings);
+    }
+    if (context.state === 'suspended') context.resume();
+  };
+
+  // A stretch of white noise, from a random point in the buffer
+  const noiseBurst = (ctx: AudioContext, out: AudioNode, start: number, length: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = white;
+    source.connect(out);
+    source.start(start, Math.random() * (NOISE_SECONDS - length), length);
+  };
+
+  const tone = (ctx: AudioContext, out: AudioNode, frequency: number, start: number, length: number, peak: number) => {
+    const osc = ctx.createOscillator();
+    osc.frequency.value = frequency;
+    osc.connect(envelope(ctx, start, 0.005, length, peak)).connect(out);
+    osc.start(start);
+    osc.stop(start + length);
+  };
+
+  const cues: Record<SoundCue, (ctx: AudioContext, out: AudioNode, now: number) => void> = {
+    // Air rushing outwards: noise swept up through a band-pass
+    scatter: (ctx, out, now) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.Q.value = 1.2;
+      filter.frequency.setValueAtTime(300, now);
+      filter.frequency.exponentialRampToValueAtTime(3000, now + 0.6);
+      const gain = envelope(ctx, now, 0.12, 0.9, 0.6);
+      filter.connect(gain).connect(out);
+      noiseBurst(ctx, filter, now, 0.9);
+    },
+    // A rising C major bell arpeggio, with the bell's off-key overtone
+    chime: (ctx, out, now) => {
+      [1046.5, 1318.5, 1568].forEach((frequency, i) => {
+        const start = now + i * 0.09;
+        tone(ctx, out, frequency, start, 1.6, 0.18);
+        tone(ctx, out, frequency * 2.76, start, 0.6, 0.04);
+      });
+    },
+    // A few crackles of paper
+    rustle: (ctx, out, now) => {
+      for (let i = 0; i < 5; i++) {
+        const start = now + Math.random() * 0.3;
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = 1800 + Math.random() * 1500;
+        filter.connect(envelope(ctx, start, 0.004, 0.08, 0.3)).connect(out);
+        noiseBurst(ctx, filter, start, 0.08);
+      }
+    },
+    // Quick, high twinkles
+    sparkle: (ctx, out, now) => {
+      for (let i = 0; i < 8; i++) {
+        tone(ctx, out, 2500 + Math.random() * 3500, now + i * 0.045, 0.25, 0.07);
+      }
+    },
+  };
+
+  const play = (cue: SoundCue, position?: THREE.Vector3) => {
+    if (!context || !master || context.state !== 'running' || settings.muted) return;
+    let out: AudioNode = master;
+    if (position) {
+      const panner = new PannerNode(context, {
+        panningModel: 'HRTF',
+        distanceModel: 'inverse',
+        refDistance: 8, // About the camera's distance from the tree, so cues there play at full level
+        positionX: position.x,
+        positionY: position.y,
+        positionZ: position.z,
+      });
+      panner.connect(master);
+      out = panner;
+    }
+    cues[cue](context, out, context.currentTime);
+  };
+
+  const setListener = (camera: THREE.Camera) => {
+    if (!context) return;
+    const listener = context.listener;
+    const { x, y, z } = camera.position;
+    camera.getWorldDirection(forward);
+    // Firefox still only has the older setter methods
+    if (listener.positionX) {
+      const now = context.currentTime;
+      listener.positionX.setValueAtTime(x, now);
+      listener.positionY.setValueAtTime(y, now);
+      listener.positionZ.setValueAtTime(z, now);
+      listener.forwardX.setValueAtTime(forward.x, now);
+      listener.forwardY.setValueAtTime(forward.y, now);
+      listener.forwardZ.setValueAtTime(forward.z, now);
+      listener.upX.setValueAtTime(camera.up.x, now);
+      listener.upY.setValueAtTime(camera.up.y, now);
+      listener.upZ.setValueAtTime(camera.up.z, now);
+    } else {
+      listener.setPosition(x, y, z);
+      listener.setOrientation(forward.x, forward.y, forward.z, camera.up.x, camera.up.y, camera.up.z);
+    }
+  };
+
+  return { unlock, apply, play, setListener };
+};
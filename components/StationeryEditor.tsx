@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useTreeStore } from '../store';
+import {
+  StationeryTheme,
+  listStationeryThemes,
+  listDecorations,
+  drawMessageCard,
+  CARD_WIDTH,
+  CARD_HEIGHT,
+} from './StationeryThemes';
+
+const CARD_FONTS = [
+  { value: '"Caveat", cursive', label: 'Caveat' },
+  { value: '"Indie Flower", cursive', label: 'Indie Flower' },
+  { value: '"Dancing Script", cursive', label: 'Dancing Script' },
+  { value: 'sans-serif', label: 'System Sans' },
+  { value: 'serif', label: 'System Serif' },
+];
+
+const EMPTY_THEME: StationeryTheme = {
+  id: '',
+  name: 'My Style',
+  background: '#fffaf0',
+  text: '#2e7d32',
+  border: '#c62828',
+  font: '"Caveat", cursive',
+  footer: '~ with love ~',
+  decoration: 'double',
+};
+
+const ThemePreview = ({ theme }: { theme: StationeryTheme }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawMessageCard(ctx, 'Merry & bright!', theme);
+  }, [theme]);
+
+  return <canvas ref={canvasRef} width={CARD_WIDTH} height={CARD_HEIGHT} className="w-16 h-20 rounded shadow" />;
+};
+
+const StationeryEditor = ({ onClose }: { onClose: () => void }) => {
+  const cardThemes = useTreeStore((state) => state.cardThemes);
+  const customThemes = useTreeStore((state) => state.customThemes);
+  const setCardThemes = useTreeStore((state) => state.setCardThemes);
+  const saveCustomTheme = useTreeStore((state) => state.saveCustomTheme);
+  const removeCustomTheme = useTreeStore((state) => state.removeCustomTheme);
+  const [draft, setDraft] = useState<StationeryTheme>(EMPTY_THEME);
+
+  const allThemes = [...listStationeryThemes(), ...customThemes];
+
+  const toggle = (id: string) => {
+    if (cardThemes.includes(id)) {
+      // Keep at least one style on the tree
+      if (cardThemes.length > 1) setCardThemes(cardThemes.filter((t) => t !== id));
+    } else {
+      setCardThemes([...cardThemes, id]);
+    }
+  };
+
+  const handleSave = () => {
+    const theme = { ...draft, id: draft.id || `custom-${uuidv4()}` };
+    saveCustomTheme(theme);
+    if (!cardThemes.includes(theme.id)) setCardThemes([...cardThemes, theme.id]);
+    setDraft(EMPTY_THEME);
+  };
+
+  const field = (key: keyof StationeryTheme, value: string) => setDraft({ ...draft, [key]: value });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm font-mono text-xs">
+      <div className="w-[32rem] max-w-[95vw] max-h-[85vh] flex flex-col p-4 rounded-lg border border-white/20 bg-black/80 text-white/80">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-amber-200 tracking-widest">CARD STYLES</span>
+          <button onClick={onClose} className="px-2 text-white/60 hover:text-white" aria-label="Close">✕</button>
+        </div>
+
+        {/* Theme Gallery: checked styles are cycled across the cards */}
+        <div className="flex-1 overflow-y-auto grid grid-cols-2 gap-2 pr-1">
+          {allThemes.map((theme) => {
+            const isCustom = customThemes.includes(theme);
+            return (
+              <div
+                key={theme.id}
+                className={`flex items-center gap-2 p-2 rounded border ${
+                  cardThemes.includes(theme.id) ? 'border-amber-400/70 bg-amber-500/10' : 'border-white/10'
+                }`}
+              >
+                <ThemePreview theme={theme} />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={cardThemes.includes(theme.id)} onChange={() => toggle(theme.id)} />
+                    <span className="truncate">{theme.name}</span>
+                  </label>
+                  {isCustom && (
+                    <div className="flex gap-2 text-white/50">
+                      <button onClick={() => setDraft(theme)} className="hover:text-amber-200">Edit</button>
+                      <button onClick={() => removeCustomTheme(theme.id)} className="hover:text-red-400">Delete</button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Custom Theme Form */}
+        <div className="mt-3 pt-3 border-t border-white/10 flex gap-3">
+          <ThemePreview theme={draft} />
+          <div className="flex-1 grid grid-cols-2 gap-2">
+            <input
+              value={draft.name}
+              maxLength={32}
+              onChange={(e) => field('name', e.target.value)}
+              className="col-span-2 px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+            />
+            {(['background', 'text', 'border'] as const).map((key) => (
+              <label key={key} className="flex items-center gap-2 capitalize">
+                <input type="color" value={draft[key]} onChange={(e) => field(key, e.target.value)} className="w-6 h-6 bg-transparent" />
+                {key}
+              </label>
+            ))}
+            <select value={draft.font} onChange={(e) => field('font', e.target.value)} className="px-2 py-1 rounded bg-white/10 border border-white/10">
+              {CARD_FONTS.map((f) => <option key={f.value} value={f.value} className="bg-black">{f.label}</option>)}
+            </select>
+            <select value={draft.decoration as string} onChange={(e) => field('decoration', e.target.value)} className="px-2 py-1 rounded bg-white/10 border border-white/10">
+              {listDecorations().map((d) => <option key={d.id} value={d.id} className="bg-black">{d.name}</option>)}
+            </select>
+            <input
+              value={draft.footer}
+              maxLength={32}
+              placeholder="Footer"
+              onChange={(e) => field('footer', e.target.value)}
+              className="px-2 py-1 rounded bg-white/10 border border-white/10 focus:outline-none focus:border-amber-400/60"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim()}
+              className="col-span-2 py-1 rounded border border-amber-400/50 text-amber-200 hover:bg-amber-500/20 disabled:opacity-30"
+            >
+              {draft.id ? 'Update Style' : 'Create Style'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StationeryEditor;
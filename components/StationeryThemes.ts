@@ -0,0 +1,226 @@
+import { fitMessage } from './Blessings';
+
+/**
+ * Card Stationery Themes
+ * A theme is plain data (colours, font, footer) plus a decoration renderer.
+ * Decorations are registered by id so user-made themes can reference them and stay serializable.
+ */
+
+export type DecorationRenderer = (ctx: CanvasRenderingContext2D, theme: StationeryTheme) => void;
+
+export interface StationeryTheme {
+  id: string;
+  name: string;
+  background: string;
+  text: string;
+  border: string;
+  font: string; // CSS font-family for the message and footer
+  footer: string;
+  decoration: string | DecorationRenderer; // Registered decoration id, or a custom renderer (code-defined themes only)
+}
+
+// Card canvas size, shared with the texture in ParticleTree
+export const CARD_WIDTH = 512;
+export const CARD_HEIGHT = 640;
+
+/**
+ * Decoration Registry
+ */
+const decorations = new Map<string, { name: string, render: DecorationRenderer }>();
+
+export const registerDecoration = (id: string, name: string, render: DecorationRenderer) => {
+  decorations.set(id, { name, render });
+};
+
+export const listDecorations = () => Array.from(decorations, ([id, { name }]) => ({ id, name }));
+
+export const hasDecoration = (id: string) => decorations.has(id);
+
+registerDecoration('none', 'None', () => {});
+
+registerDecoration('dashed', 'Dashed Frame', (ctx, theme) => {
+  ctx.strokeStyle = theme.border;
+  ctx.lineWidth = 6;
+  ctx.setLineDash([20, 15]);
+  ctx.strokeRect(25, 25, 462, 590);
+  ctx.setLineDash([]);
+});
+
+registerDecoration('hearts', 'Corner Dots', (ctx, theme) => {
+  ctx.strokeStyle = theme.border;
+  ctx.lineWidth = 10;
+  ctx.strokeRect(20, 20, 472, 600);
+  // Draw dots as abstract hearts
+  ctx.fillStyle = theme.border;
+  [40, 256, 472].forEach(x => {
+      ctx.beginPath(); ctx.arc(x, 40, 10, 0, Math.PI*2); ctx.fill();
+      ctx.beginPath(); ctx.arc(x, 600, 10, 0, Math.PI*2); ctx.fill();
+  });
+});
+
+registerDecoration('snow', 'Ruled Lines', (ctx, theme) => {
+  // Subtle lines
+  ctx.fillStyle = theme.border;
+  ctx.globalAlpha = 0.25;
+  for(let i=0; i<10; i++) ctx.fillRect(0, 60 + i*60, 512, 2);
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = theme.border;
+  ctx.lineWidth = 12;
+  ctx.strokeRect(10, 10, 492, 620);
+});
+
+registerDecoration('double', 'Double Border', (ctx, theme) => {
+  ctx.strokeStyle = theme.border;
+  ctx.lineWidth = 15;
+  ctx.strokeRect(20, 20, 472, 600);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(45, 45, 422, 550);
+});
+
+const drawStar = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number) => {
+  // Star of David: two overlapping triangles
+  [0, Math.PI].forEach((offset) => {
+    ctx.beginPath();
+    for (let i = 0; i < 3; i++) {
+      const a = offset + (i * Math.PI * 2) / 3 - Math.PI / 2;
+      const px = x + r * Math.cos(a);
+      const py = y + r * Math.sin(a);
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    }
+    ctx.closePath();
+    ctx.stroke();
+  });
+};
+
+registerDecoration('stars', 'Star Corners', (ctx, theme) => {
+  ctx.strokeStyle = theme.border;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(30, 30, 452, 580);
+  ctx.lineWidth = 3;
+  [[60, 60], [452, 60], [60, 580], [452, 580]].forEach(([x, y]) => drawStar(ctx, x, y, 22));
+});
+
+registerDecoration('lanterns', 'Lanterns', (ctx, theme) => {
+  ctx.strokeStyle = theme.border;
+  ctx.lineWidth = 8;
+  ctx.strokeRect(18, 18, 476, 604);
+  // A string of lanterns along the top edge
+  ctx.fillStyle = theme.border;
+  [96, 192, 320, 416].forEach((x) => {
+    ctx.fillRect(x - 1, 18, 2, 24);
+    ctx.beginPath(); ctx.ellipse(x, 58, 16, 20, 0, 0, Math.PI * 2); ctx.fill();
+    ctx.fillRect(x - 6, 78, 12, 8);
+  });
+});
+
+registerDecoration('bar', 'Brand Bar', (ctx, theme) => {
+  ctx.fillStyle = theme.border;
+  ctx.fillRect(0, 0, 512, 28);
+  ctx.fillRect(0, 612, 512, 28);
+});
+
+/**
+ * Theme Registry
+ */
+const themes = new Map<string, StationeryTheme>();
+
+export const registerStationeryTheme = (theme: StationeryTheme) => {
+  themes.set(theme.id, theme);
+};
+
+export const listStationeryThemes = () => Array.from(themes.values());
+
+/**
+ * Finds a theme among the built-ins and the user's own, falling back to the first built-in.
+ */
+export const getStationeryTheme = (id: string, customThemes: StationeryTheme[] = []): StationeryTheme => {
+  return themes.get(id) ?? customThemes.find((t) => t.id === id) ?? themes.values().next().value!;
+};
+
+// Clear handwriting fonts only (no hard-to-read cursives)
+registerStationeryTheme({
+  id: 'kraft', name: 'Vintage Kraft Paper',
+  background: '#e8dcca', text: '#4a3b2a', border: '#8d6e63',
+  font: '"Indie Flower", cursive', // Very readable
+  footer: '~ with love ~', decoration: 'dashed',
+});
+registerStationeryTheme({
+  id: 'love', name: 'Soft Pink Love Letter',
+  background: '#fff0f5', text: '#c2185b', border: '#f48fb1',
+  font: '"Caveat", cursive', // Clear marker style
+  footer: '~ with love ~', decoration: 'hearts',
+});
+registerStationeryTheme({
+  id: 'frost', name: 'Winter Frost',
+  background: '#e3f2fd', text: '#01579b', border: '#81d4fa',
+  font: '"Caveat", cursive',
+  footer: '~ with love ~', decoration: 'snow',
+});
+registerStationeryTheme({
+  id: 'festive', name: 'Festive Holiday',
+  background: '#fff8e1', text: '#b71c1c', border: '#ff6f00',
+  font: '"Indie Flower", cursive',
+  footer: '~ with love ~', decoration: 'double',
+});
+registerStationeryTheme({
+  id: 'hanukkah', name: 'Hanukkah Blue',
+  background: '#f3f7ff', text: '#0d3c8c', border: '#4a78c9',
+  font: '"Caveat", cursive',
+  footer: '~ happy hanukkah ~', decoration: 'stars',
+});
+registerStationeryTheme({
+  id: 'lunar', name: 'Lunar New Year',
+  background: '#b71c1c', text: '#ffe082', border: '#ffc107',
+  font: '"Caveat", cursive',
+  footer: '~ 新春快乐 ~', decoration: 'lanterns',
+});
+registerStationeryTheme({
+  id: 'corporate', name: 'Corporate Clean',
+  background: '#ffffff', text: '#263238', border: '#1e88e5',
+  font: 'sans-serif',
+  footer: 'Season\'s Greetings', decoration: 'bar',
+});
+
+// Matches the original four-style rotation
+export const DEFAULT_CARD_THEMES = ['kraft', 'love', 'frost', 'festive'];
+
+/**
+ * Draws a complete message card (paper, decoration, wrapped text, footer) onto a CARD_WIDTH x CARD_HEIGHT canvas.
+ */
+export const drawMessageCard = (ctx: CanvasRenderingContext2D, text: string, theme: StationeryTheme) => {
+  // Fill Background
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  // Decorations
+  const render = typeof theme.decoration === 'function'
+    ? theme.decoration
+    : decorations.get(theme.decoration)?.render;
+  ctx.save();
+  render?.(ctx, theme);
+  ctx.restore();
+
+  // Text Configuration
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = theme.text;
+
+  // Font logic - Wrap inside the border and shrink from 90px until the message fits above the footer
+  const { lines, fontSize, lineHeight } = fitMessage(ctx, text, theme.font, 400, 460);
+  ctx.font = `${fontSize}px ${theme.font}`;
+  const startY = 310 - ((lines.length - 1) * lineHeight) / 2;
+
+  lines.forEach((line, i) => {
+    ctx.fillText(line, 256, startY + i * lineHeight);
+  });
+
+  // Footer Decoration
+  if (theme.footer) {
+    ctx.font = `40px ${theme.font}`;
+    ctx.globalAlpha = 0.6;
+    ctx.fillText(theme.footer, 256, 580, 440);
+    ctx.globalAlpha = 1;
+  }
+};
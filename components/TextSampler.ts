@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { TextGeometry, MeshSurfaceSampler, Font } from 'three-stdlib';
+import { RandomSource } from './Random';
+
+/**
+ * Headline Text Sampling
+ * Produces particle target positions for ParticleText, either from the 3D typeface JSON
+ * or, for characters it doesn't cover (CJK, Cyrillic, emoji...), from a canvas-rasterized web/system font.
+ */
+
+// Used when the headline has no font of its own but the typeface can't draw it
+export const FALLBACK_FONT_STACK = '"Noto Sans SC", "PingFang SC", "Microsoft YaHei", "Segoe UI", "Apple Color Emoji", "Segoe UI Emoji", sans-serif';
+
+// Rasterization resolution: glyphs are drawn this tall before sampling
+export const RASTER_FONT_PX = 160;
+
+export const canTypeset = (font: Font, text: string) => {
+  return [...text].every((char) => /\s/.test(char) || font.data.glyphs[char] !== undefined);
+};
+
+const sampleTypeface = (font: Font, text: string, size: number, count: number, random: RandomSource) => {
+  const textGeo = new TextGeometry(text, {
+    font: font,
+    size: size,
+    height: 0.2,
+    curveSegments: 12,
+    bevelEnabled: true,
+    bevelThickness: 0.02,
+    bevelSize: 0.01,
+    bevelOffset: 0,
+  });
+  textGeo.center();
+
+  const tempMesh = new THREE.Mesh(textGeo, new THREE.MeshBasicMaterial());
+  const sampler = new MeshSurfaceSampler(tempMesh).setRandomGenerator(random).build();
+
+  const positions = new Float32Array(count * 3);
+  const tempPos = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    sampler.sample(tempPos);
+    positions[i * 3] = tempPos.x;
+    positions[i * 3 + 1] = tempPos.y;
+    positions[i * 3 + 2] = tempPos.z;
+  }
+
+  textGeo.dispose();
+  (tempMesh.material as THREE.Material).dispose();
+  return positions;
+};
+
+const sampleRaster = (text: string, fontFamily: string, size: number, count: number, random: RandomSource) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return new Float32Array(0);
+
+  const font = `bold ${RASTER_FONT_PX}px ${fontFamily}`;
+  ctx.font = font;
+  const padding = RASTER_FONT_PX * 0.25;
+  canvas.width = Math.ceil(ctx.measureText(text).width + padding * 2);
+  canvas.height = Math.ceil(RASTER_FONT_PX * 1.5);
+  if (canvas.width <= padding * 2) return new Float32Array(0);
+
+  // Resizing the canvas resets its state
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  // Collect every covered pixel (alpha works for colour emoji too)
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const filled: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 128) filled.push(x, y);
+    }
+  }
+  if (filled.length === 0) return new Float32Array(0);
+
+  // The typeface's `size` is its em height; match that scale so both paths look alike
+  const scale = size / RASTER_FONT_PX;
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const p = Math.floor(random() * (filled.length / 2)) * 2;
+    positions[i * 3] = (filled[p] + random() - width / 2) * scale;
+    positions[i * 3 + 1] = (height / 2 - filled[p + 1] - random()) * scale;
+    positions[i * 3 + 2] = (random() - 0.5) * 0.2; // Same depth as the extruded typeface
+  }
+  return positions;
+};
+
+// Shrinks the sampled text uniformly so it never spans more than `maxWidth`
+const fitWidth = (positions: Float32Array, maxWidth: number) => {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]);
+    maxX = Math.max(maxX, positions[i]);
+  }
+  const width = maxX - minX;
+  if (!(width > maxWidth)) return positions;
+
+  const scale = maxWidth / width;
+  for (let i = 0; i < positions.length; i += 3) {
+    positions[i] *= scale;
+    positions[i + 1] *= scale;
+  }
+  return positions;
+};
+
+/**
+ * Samples `count` points on the rendered text, centered on the origin.
+ * The typeface is used when `fontFamily` is empty and it has every glyph; otherwise the text is rasterized.
+ * Pass a seeded `random` to sample the same points every time.
+ */
+export const sampleTextPoints = (
+  text: string,
+  font: Font,
+  fontFamily: string,
+  size: number,
+  count: number,
+  maxWidth: number,
+  random: RandomSource = Math.random
+): Float32Array => {
+  const positions = !fontFamily && canTypeset(font, text)
+    ? sampleTypeface(font, text, size, count, random)
+    : sampleRaster(text, fontFamily || FALLBACK_FONT_STACK, size, count, random);
+  return fitWidth(positions, maxWidth);
+};
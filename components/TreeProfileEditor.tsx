@@ -0,0 +1,51 @@
+import React, { useRef } from 'react';
+
+/**
+ * Tree Profile Editor
+ * Draw the silhouette for the 'Draw Your Own' shape: drag across the box to set how wide the tree
+ * is at each height. The outline is mirrored around the trunk, base at the bottom.
+ */
+const TreeProfileEditor = ({ profile, onChange }: { profile: number[], onChange: (profile: number[]) => void }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const last = profile.length - 1;
+
+  // Control point i sits at height i / last, from the base (bottom of the box) up
+  const pointY = (i: number) => 95 - (i / last) * 90;
+  const outline = [
+    ...profile.map((r, i) => `${50 + r * 45},${pointY(i)}`),
+    ...profile.map((r, i) => `${50 - r * 45},${pointY(i)}`).reverse(),
+  ].join(' ');
+
+  const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    const index = Math.round(Math.min(Math.max((95 - y) / 90, 0), 1) * last);
+    const radius = Math.round(Math.min(Math.abs(x - 50) / 45, 1) * 100) / 100;
+    if (profile[index] !== radius) onChange(profile.map((r, i) => (i === index ? radius : r)));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      className="w-full h-28 rounded border border-white/10 bg-white/5 cursor-crosshair touch-none"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        handlePointer(e);
+      }}
+      onPointerMove={handlePointer}
+    >
+      <line x1={50} y1={3} x2={50} y2={97} stroke="rgba(255,255,255,0.15)" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+      <polygon points={outline} fill="rgba(251,191,36,0.2)" stroke="rgb(251,191,36)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      {profile.map((r, i) => (
+        <circle key={i} cx={50 + r * 45} cy={pointY(i)} r={1.8} fill="rgb(253,230,138)" />
+      ))}
+    </svg>
+  );
+};
+
+export default TreeProfileEditor;
@@ -1,4 +1,17 @@
 import * as THREE from 'three';
+import { SNOWFALL_HEIGHT } from './Formations';
+import { LIGHT_PATTERN_INDEX } from './LightSequences';
+
+// Snowfall formation: scattered positions sink at uFall units per second (0 = still), each at its own
+// pace, and wrap from the bottom of the column back to the top. Needs uTime and uFall declared.
+const snowfallDrift = `
+  vec3 snowfallDrift(vec3 p) {
+    if (uFall <= 0.0) return p;
+    float pace = 0.7 + 0.6 * fract(sin(dot(p.xz, vec2(12.9898, 78.233))) * 43758.5453);
+    p.y = ${(SNOWFALL_HEIGHT / 2).toFixed(1)} - mod(${(SNOWFALL_HEIGHT / 2).toFixed(1)} - p.y + uTime * uFall * pace, ${SNOWFALL_HEIGHT.toFixed(1)});
+    return p;
+  }
+`;
 
 /**
  * Foliage Vertex Shader
@@ -8,9 +21,13 @@ export const foliageVertexShader = `
   uniform float uTime;
   uniform float uProgress; // 0.0 = Tree (Formed), 1.0 = Chaos (Unleashed)
   uniform float uSize;
+  uniform float uMorph;      // 0.0 = previous tree shape, 1.0 = current one
+  uniform float uTreeHeight;
+  uniform float uFall;
   
   attribute vec3 aTargetPos; // The Tree shape
-  attribute vec3 aChaosPos;  // The Random sphere shape
+  attribute vec3 aPrevTargetPos; // The Tree shape being morphed away from
+  attribute vec3 aChaosPos;  // Place in the scatter formation
   attribute float aRandom;   // Random seed per particle
   
   varying float vRatio;      // Vertical height ratio for gradient
@@ -21,7 +38,7 @@ export const foliageVertexShader = `
   float easeOutCubic(float x) {
     return 1.0 - pow(1.0 - x, 3.0);
   }
-
+${snowfallDrift}
   void main() {
     vRandom = aRandom;
 
@@ -29,7 +46,8 @@ export const foliageVertexShader = `
     float mixFactor = easeOutCubic(uProgress);
     
     // Mix position
-    vec3 pos = mix(aTargetPos, aChaosPos, mixFactor);
+    vec3 target = mix(aPrevTargetPos, aTargetPos, smoothstep(0.0, 1.0, uMorph));
+    vec3 pos = mix(target, snowfallDrift(aChaosPos), mixFactor);
     
     // 2. Add "Breathing" life
     // Finer movement for smaller particles
@@ -52,7 +70,8 @@ export const foliageVertexShader = `
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     
     // Calculate vertical ratio (0 at bottom, 1 at top)
-    vRatio = (aTargetPos.y + 3.0) / 6.0;
+    // (y + 3) / 6 on the default 7-unit tree
+    vRatio = target.y / (uTreeHeight - 1.0) + 0.5;
     
     // Distance attenuation
     // We add variation based on aRandom so particles aren't all uniform size
@@ -72,9 +91,13 @@ export const foliageVertexShader = `
  * Foliage Fragment Shader
  * Renders "Magical Light" particles
  * Updated: Significantly increased brightness (values > 1.0 for Bloom)
+ * The gradient comes from the colour theme (see ColorThemes)
  */
 export const foliageFragmentShader = `
   uniform float uTime;
+  uniform vec3 uColorDeep;
+  uniform vec3 uColorMid;
+  uniform vec3 uColorTop;
   varying float vRatio;
   varying float vAlpha;
   varying float vRandom;
@@ -89,16 +112,12 @@ export const foliageFragmentShader = `
     float glow = 1.0 - smoothstep(0.0, 0.5, r);
     glow = pow(glow, 1.5); 
 
-    // 2. Magical Palette (Boosted for Bloom)
+    // 2. Themed Palette (Boosted for Bloom)
     // Values > 1.0 trigger stronger glow in post-processing
     
-    vec3 colorDeep = vec3(0.6, 0.2, 1.8);    // Neon Deep Purple
-    vec3 colorMid = vec3(0.4, 1.2, 3.0);     // Electric Blue
-    vec3 colorTop = vec3(2.0, 1.8, 0.8);     // Bright Gold/White
-    
     // Gradient logic
-    vec3 finalColor = mix(colorDeep, colorMid, smoothstep(0.0, 0.5, vRatio));
-    finalColor = mix(finalColor, colorTop, smoothstep(0.6, 1.0, vRatio));
+    vec3 finalColor = mix(uColorDeep, uColorMid, smoothstep(0.0, 0.5, vRatio));
+    finalColor = mix(finalColor, uColorTop, smoothstep(0.6, 1.0, vRatio));
 
     // 3. Sparkle Effect
     float twinkleSpeed = 2.0 + vRandom * 6.0;
@@ -136,7 +155,6 @@ export const textVertexShader = `
   float easeOutCubic(float x) {
     return 1.0 - pow(1.0 - x, 3.0);
   }
-
   void main() {
     vRandom = aRandom;
 
@@ -166,10 +184,12 @@ export const textVertexShader = `
 
 /**
  * Text Fragment Shader
- * Distinct Gold Glitter
+ * Distinct Glitter, gold in the original theme
  */
 export const textFragmentShader = `
   uniform float uTime;
+  uniform vec3 uColor;
+  uniform vec3 uHighlight;
   varying float vAlpha;
   varying float vRandom;
 
@@ -181,14 +201,10 @@ export const textFragmentShader = `
 
     float glow = 1.0 - smoothstep(0.3, 0.5, r);
 
-    // Rich Gold Palette
-    vec3 gold = vec3(1.5, 0.9, 0.2); 
-    vec3 brightGold = vec3(2.0, 1.5, 0.8); 
-    
     float twinkleSpeed = 3.0 + vRandom * 5.0;
     float twinkle = sin(uTime * twinkleSpeed + vRandom * 100.0);
     
-    vec3 color = mix(gold, brightGold, smoothstep(0.0, 1.0, twinkle));
+    vec3 color = mix(uColor, uHighlight, smoothstep(0.0, 1.0, twinkle));
     
     if (twinkle > 0.8) {
        color += vec3(1.0); 
@@ -196,4 +212,164 @@ export const textFragmentShader = `
 
     gl_FragColor = vec4(color, glow * vAlpha);
   }
-`;
\ No newline at end of file
+`;
+/**
+ * Card Vertex Shader
+ * Instanced paper cards: each instance picks its face out of a shared texture atlas
+ */
+export const cardVertexShader = `
+  attribute vec4 aUvRect; // Atlas tile: offset (xy) and size (zw) in UV space
+
+  varying vec2 vUv;
+
+  void main() {
+    vUv = aUvRect.xy + uv * aUvRect.zw;
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  }
+`;
+
+/**
+ * Card Fragment Shader
+ * Unlit, like the single-card material, dimmed slightly so the focused card stands out
+ */
+export const cardFragmentShader = `
+  uniform sampler2D uAtlas;
+  uniform vec3 uTint;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 texel = texture2D(uAtlas, vUv);
+    gl_FragColor = vec4(texel.rgb * uTint, texel.a);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Ornament Vertex Chunks
+ * Spliced into MeshStandardMaterial (see OrnamentLayer), so ornaments keep their PBR lighting
+ * while the tree <-> scatter motion runs per instance on the GPU, like the foliage
+ */
+export const ornamentVertexHeader = `
+  uniform float uTime;
+  uniform float uProgress; // 0.0 = Tree (Formed), 1.0 = Chaos (Unleashed)
+  uniform vec2 uSpin;      // Spin shared by every ornament (x, y), accumulated on the CPU
+  uniform float uMorph;    // 0.0 = previous tree shape, 1.0 = current one
+  uniform float uFall;
+
+  attribute vec3 aTargetPos; // Place on the tree
+  attribute vec3 aPrevTargetPos; // Place on the tree shape being morphed away from
+  attribute vec3 aChaosPos;  // Place in the scatter formation
+  attribute float aScale;
+  attribute vec2 aRotation;  // Starting rotation (x, y)
+
+  float ornamentEaseOutCubic(float x) {
+    return 1.0 - pow(1.0 - x, 3.0);
+  }
+${snowfallDrift}
+  // Euler XYZ rotation with no roll: Rx * Ry
+  mat3 ornamentRotation() {
+    vec2 a = aRotation + uSpin;
+    float cx = cos(a.x);
+    float sx = sin(a.x);
+    float cy = cos(a.y);
+    float sy = sin(a.y);
+    mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, cx, sx, 0.0, -sx, cx);
+    mat3 ry = mat3(cy, 0.0, -sy, 0.0, 1.0, 0.0, sy, 0.0, cy);
+    return rx * ry;
+  }
+`;
+
+export const ornamentBeginNormal = `
+  mat3 ornamentRot = ornamentRotation();
+  vec3 objectNormal = ornamentRot * vec3(normal);
+`;
+
+export const ornamentBeginVertex = `
+  vec3 ornamentTarget = mix(aPrevTargetPos, aTargetPos, smoothstep(0.0, 1.0, uMorph));
+  vec3 ornamentPos = mix(ornamentTarget, snowfallDrift(aChaosPos), ornamentEaseOutCubic(uProgress));
+
+  // Disordered floating once scattered
+  float floatAmount = smoothstep(0.7, 0.9, uProgress);
+  ornamentPos.y += sin(uTime * 3.0 + aChaosPos.x * 10.0) * 0.01 * floatAmount;
+  ornamentPos.z += cos(uTime * 3.0 + aChaosPos.y * 10.0) * 0.01 * floatAmount;
+
+  float ornamentScale = aScale * (1.0 - uProgress * 0.3);
+  vec3 transformed = ornamentRot * (position * ornamentScale) + ornamentPos;
+`;
+
+/**
+ * Fairy-Light Chunks
+ * Spliced into the light layers on top of the ornament chunks: each light works out its own
+ * brightness (and, for the rainbow, its own hue) from the running pattern, its height on the tree,
+ * its blink group and its seed, and the fragment stage scales the emissive glow by it
+ */
+export const lightVertexHeader = `
+  uniform float uLightTime;       // Pattern clock, already scaled by the speed setting
+  uniform float uLightPattern;    // Index into LIGHT_PATTERNS
+  uniform float uLightPrevious;   // Pattern being faded out
+  uniform float uLightBlend;      // 0.0 = previous pattern, 1.0 = current one
+  uniform float uLightBrightness;
+  uniform float uLightFlash;      // Music beats (see AudioAnalysis), added on top of any pattern
+
+  attribute vec3 aLight; // Height on the tree (0 base .. 1 tip), blink group (0 / 1), random seed
+
+  varying float vLightLevel;
+  varying float vLightRainbow;
+  varying vec3 vLightHue;
+
+  float lightHash(float n) {
+    return fract(sin(n) * 43758.5453);
+  }
+
+  // (brightness, how much the rainbow hue replaces the light's colour) for one pattern
+  vec2 lightPatternLevel(float pattern) {
+    int p = int(pattern + 0.5);
+    float t = uLightTime;
+    if (p == ${LIGHT_PATTERN_INDEX.chase}) {
+      // Bands of light running up the tree
+      float wave = fract(aLight.x * 3.0 - t * 0.8);
+      return vec2(0.12 + 1.6 * pow(wave, 6.0), 0.0);
+    }
+    if (p == ${LIGHT_PATTERN_INDEX.blink}) {
+      // The two groups take turns
+      float on = smoothstep(-0.2, 0.2, sin((t * 0.6 + aLight.y * 0.5) * 6.2832));
+      return vec2(0.08 + 1.1 * on, 0.0);
+    }
+    if (p == ${LIGHT_PATTERN_INDEX.rainbow}) {
+      return vec2(1.0, 1.0);
+    }
+    if (p == ${LIGHT_PATTERN_INDEX.breathe}) {
+      return vec2(0.2 + 0.9 * (0.5 - 0.5 * cos(t * 1.2)), 0.0);
+    }
+    if (p == ${LIGHT_PATTERN_INDEX.sparkle}) {
+      // Each light rolls a die a few times a second and flashes on a hit
+      float beat = t * 3.0 + aLight.z * 7.0;
+      float hit = step(0.82, lightHash(floor(beat) + aLight.z * 131.0));
+      return vec2(0.2 + 2.0 * hit * pow(1.0 - fract(beat), 2.0), 0.0);
+    }
+    return vec2(1.0, 0.0); // Steady
+  }
+`;
+
+export const lightBeginVertex = `
+  vec2 lightLevel = mix(lightPatternLevel(uLightPrevious), lightPatternLevel(uLightPattern), uLightBlend);
+  vLightLevel = (lightLevel.x + uLightFlash) * uLightBrightness;
+  vLightRainbow = lightLevel.y;
+  float lightHue = fract(aLight.x - uLightTime * 0.15);
+  vLightHue = clamp(abs(mod(lightHue * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+`;
+
+export const lightFragmentHeader = `
+  varying float vLightLevel;
+  varying float vLightRainbow;
+  varying vec3 vLightHue;
+`;
+
+// Runs after <emissivemap_fragment>; the rainbow keeps the glow's strength but swaps its colour
+export const lightEmissiveFragment = `
+  float lightPeak = max(totalEmissiveRadiance.r, max(totalEmissiveRadiance.g, totalEmissiveRadiance.b));
+  totalEmissiveRadiance = mix(totalEmissiveRadiance, vLightHue * lightPeak, vLightRainbow) * vLightLevel;
+`;
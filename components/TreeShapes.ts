@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import { TreeShape, TreeShapeId } from '../types';
+
+/**
+ * Tree Shapes
+ * The silhouettes the foliage, ornaments, cards and star are placed on. A shape maps a spot
+ * (t, theta) to a point, where t runs from 0 at the base to 1 at the tip and theta is the angle
+ * around the trunk. Layers keep their spots fixed, so switching shape moves every item to the same
+ * spot on the new silhouette, and the layers animate that move.
+ */
+
+export const TREE_SHAPES: { id: TreeShapeId, label: string }[] = [
+  { id: 'cone', label: 'Classic Cone' },
+  { id: 'fir', label: 'Tiered Fir' },
+  { id: 'spiral', label: 'Spiral' },
+  { id: 'rings', label: 'Stacked Rings' },
+  { id: 'pine', label: 'Drooping Pine' },
+  { id: 'custom', label: 'Draw Your Own' },
+];
+
+// Control points of a custom profile, base to tip
+export const PROFILE_POINTS = 8;
+
+export const TREE_SIZE_LIMITS = {
+  height: { min: 4, max: 10 },
+  width: { min: 1.5, max: 5 },
+};
+
+export const DEFAULT_TREE_SHAPE: TreeShape = {
+  id: 'cone',
+  height: 7,
+  width: 3.5,
+  // A straight cone, so 'Draw Your Own' starts from the classic tree
+  profile: Array.from({ length: PROFILE_POINTS }, (_, i) => Math.round((1 - i / (PROFILE_POINTS - 1)) * 100) / 100),
+};
+
+const TWO_PI = Math.PI * 2;
+const FIR_TIERS = 5;
+const SPIRAL_ARMS = 2;
+const SPIRAL_TURNS = 4;
+const RING_COUNT = 9;
+const PINE_BRANCHES = 7;
+
+const fract = (x: number) => x - Math.floor(x);
+
+// Radius (fraction of the base width) of a drawn profile at height t, linearly between control points
+export const sampleProfile = (profile: number[], t: number) => {
+  if (profile.length === 0) return 1 - t;
+  const x = THREE.MathUtils.clamp(t, 0, 1) * (profile.length - 1);
+  const i = Math.min(Math.floor(x), profile.length - 2);
+  if (i < 0) return profile[0];
+  return THREE.MathUtils.lerp(profile[i], profile[i + 1], x - i);
+};
+
+// Where a spot sits on a silhouette: radius as a fraction of the width, the angle to place it at,
+// and a vertical shift in units of the tree height
+interface Placement {
+  radius: number;
+  angle: number;
+  lift: number;
+}
+
+const place = (shape: TreeShape, t: number, theta: number): Placement => {
+  switch (shape.id) {
+    case 'fir': {
+      // Each tier flares out at its base and tapers towards the next one
+      const tier = Math.min(Math.floor(t * FIR_TIERS), FIR_TIERS - 1);
+      const u = t * FIR_TIERS - tier;
+      return { radius: (1 - tier / FIR_TIERS) * (1 - u * 0.6), angle: theta, lift: 0 };
+    }
+    case 'spiral': {
+      // Spots gather onto garland-like arms winding up the cone; theta only picks the arm and the spread
+      const arm = Math.floor(fract(theta / TWO_PI) * SPIRAL_ARMS);
+      const spread = (fract(theta * 0.618) - 0.5) * 0.5;
+      const depth = 0.85 + fract(theta * 1.37) * 0.3;
+      return {
+        radius: (1 - t) * depth,
+        angle: t * SPIRAL_TURNS * TWO_PI + (arm / SPIRAL_ARMS) * TWO_PI + spread,
+        lift: 0,
+      };
+    }
+    case 'rings': {
+      // Horizontal hoops, each a little narrower than the one below
+      const ring = Math.min(Math.floor(t * RING_COUNT), RING_COUNT - 1);
+      const ringT = ring / (RING_COUNT - 1);
+      return { radius: 1 - ringT * 0.9, angle: theta, lift: ringT - t + (fract(t * RING_COUNT) - 0.5) * 0.01 };
+    }
+    case 'pine': {
+      // Whorls of branches whose tips sag under their own weight
+      const branch = 0.75 + 0.25 * Math.abs(Math.cos(theta * PINE_BRANCHES * 0.5));
+      const radius = Math.pow(1 - t, 0.85) * branch;
+      return { radius, angle: theta, lift: -0.05 * radius * radius };
+    }
+    case 'custom':
+      return { radius: sampleProfile(shape.profile, t), angle: theta, lift: 0 };
+    case 'cone':
+    default:
+      return { radius: 1 - t, angle: theta, lift: 0 };
+  }
+};
+
+/**
+ * The point for spot (t, theta) on `shape`, centred on the trunk. `widthScale` pushes a layer
+ * in or out from the foliage surface (cards sit slightly outside it, ornaments slightly inside).
+ */
+export const getTreePoint = (shape: TreeShape, t: number, theta: number, widthScale = 1, out = new THREE.Vector3()) => {
+  const { radius, angle, lift } = place(shape, t, theta);
+  const r = shape.width * widthScale * radius;
+  return out.set(r * Math.cos(angle), shape.height * (t + lift) - shape.height / 2, r * Math.sin(angle));
+};
+
+// Where the star sits, just above the tip
+export const getTreeTop = (shape: TreeShape) => shape.height / 2 + 0.3;
+
+export const getTreeBase = (shape: TreeShape) => -shape.height / 2;
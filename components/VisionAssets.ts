@@ -0,0 +1,64 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+/**
+ * Vision Assets
+ * The wasm runtime and the hand model are served from the app's own origin by default
+ * (see vite.config.ts and `npm run fetch:model`), so tracking works on offline kiosks.
+ * Both paths can be overridden at build time through VITE_VISION_WASM_PATH / VITE_HAND_MODEL_PATH.
+ */
+export const VISION_WASM_PATH = import.meta.env.VITE_VISION_WASM_PATH ?? `${import.meta.env.BASE_URL}mediapipe/wasm`;
+export const HAND_MODEL_PATH = import.meta.env.VITE_HAND_MODEL_PATH ?? `${import.meta.env.BASE_URL}models/hand_landmarker.task`;
+
+export type VisionAsset = 'wasm' | 'model' | 'runtime' | 'source';
+
+/**
+ * Setup failure that names the asset (or stage) that broke, for a useful on-screen message.
+ */
+export class VisionSetupError extends Error {
+  constructor(public asset: VisionAsset, message: string, public url?: string) {
+    super(message);
+    this.name = 'VisionSetupError';
+  }
+}
+
+const fetchAsset = async (asset: VisionAsset, label: string, url: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new VisionSetupError(asset, `${label} could not be reached`, url);
+  }
+  // A dev server or SPA host answering with index.html means the file isn't there
+  if (!response.ok || response.headers.get('Content-Type')?.includes('text/html')) {
+    throw new VisionSetupError(asset, `${label} is missing (HTTP ${response.status})`, url);
+  }
+  return response;
+};
+
+/**
+ * Loads the wasm runtime and hand model, trying the GPU delegate first and falling back to CPU.
+ */
+export const loadHandLandmarker = async (numHands: number): Promise<HandLandmarker> => {
+  // FilesetResolver only builds URLs, so probe the loader script ourselves for a precise error
+  await fetchAsset('wasm', 'Vision runtime (wasm)', `${VISION_WASM_PATH}/vision_wasm_internal.js`);
+  const modelResponse = await fetchAsset('model', 'Hand model', HAND_MODEL_PATH);
+  const modelAssetBuffer = new Uint8Array(await modelResponse.arrayBuffer());
+
+  const vision = await FilesetResolver.forVisionTasks(VISION_WASM_PATH);
+
+  let lastError: unknown = null;
+  for (const delegate of ['GPU', 'CPU'] as const) {
+    try {
+      return await HandLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetBuffer, delegate },
+        runningMode: "VIDEO",
+        numHands
+      });
+    } catch (error) {
+      console.warn(`Hand landmarker failed on the ${delegate} delegate:`, error);
+      lastError = error;
+    }
+  }
+
+  throw new VisionSetupError('runtime', `Hand tracking could not start on this device (${String(lastError)})`);
+};
@@ -1,183 +1,341 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker, DrawingUtils, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HandLandmarker, DrawingUtils } from '@mediapipe/tasks-vision';
 import { useTreeStore } from '../store';
-import { LoadingStatus } from '../types';
+import { InputSource, LoadingStatus } from '../types';
+import { createHandPipeline, HandDetections } from './HandPipeline';
+import { createSessionRecorder, createReplaySource, parseSessionRecording, SessionRecording } from './SessionRecording';
+import { getActiveCalibration } from './Calibration';
+import { VisionSetupError } from './VisionAssets';
+import { createHandDetector, HandDetector } from './HandDetector';
+import { createFallbackInput } from './FallbackInput';
+import {
+  VisionSource,
+  WEBCAM_RESOLUTIONS,
+  listCameras,
+  openWebcam,
+  openVideoFile,
+  openImageSequence,
+} from './VisionSources';
+
+// Controls advertised while the fallback input is driving the tree
+const FALLBACK_HINTS: Record<Exclude<InputSource, 'camera'>, { label: string, lines: string[] }> = {
+  keyboard: { label: 'Keyboard', lines: ['Space: Scatter / Form', 'Arrows: Orbit', '+ / -: Zoom', 'Q / E: Cards'] },
+  mouse: { label: 'Mouse', lines: ['Hold: Scatter / Form', 'Drag: Orbit', 'Wheel: Zoom'] },
+  touch: { label: 'Touch', lines: ['Spread: Scatter', 'Pinch: Form', 'Drag: Orbit'] },
+};
+
+// Human-readable reason shown in the status pill when setup fails
+const describeSetupError = (error: unknown) => {
+  if (error instanceof VisionSetupError) {
+    if (error.asset === 'model') return `${error.message}. Run "npm run fetch:model".`;
+    return error.message;
+  }
+  if (error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError')) {
+    return 'Camera access was denied';
+  }
+  if (error instanceof DOMException && error.name === 'NotFoundError') {
+    return 'No camera found';
+  }
+  if (error instanceof DOMException && error.name === 'NotReadableError') {
+    return 'The camera is in use by another app';
+  }
+  if (error instanceof DOMException && error.name === 'OverconstrainedError') {
+    return 'The camera does not support that resolution';
+  }
+  if (error instanceof DOMException && error.name === 'NotSupportedError') {
+    return 'This video format is not supported';
+  }
+  return 'Vision failed to start';
+};
+
+// Hand detection rate, independent of the render rate (the camera lerps between updates)
+const INFERENCE_FPS = 30;
+
+type Detect = (timestamp: number) => HandDetections | null | Promise<HandDetections | null>;
 
 const VisionManager: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameCanvasRef = useRef<HTMLCanvasElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const videoFileInputRef = useRef<HTMLInputElement>(null);
+  const imageFolderInputRef = useRef<HTMLInputElement>(null);
   const [status, setStatus] = useState<LoadingStatus>(LoadingStatus.INITIALIZING);
-  const setHandPosition = useTreeStore((state) => state.setHandPosition);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [replayName, setReplayName] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [sourceKind, setSourceKind] = useState<VisionSource['kind']>('webcam');
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<{ deviceId: string, label: string }[]>([]);
+  const [isDetectorReady, setIsDetectorReady] = useState(false);
+  const activeGesture = useTreeStore((state) => state.activeGesture);
+  const inputSource = useTreeStore((state) => state.inputSource);
+  const handFilter = useTreeStore((state) => state.handFilter);
+  const calibrationProfiles = useTreeStore((state) => state.calibrationProfiles);
+  const activeProfileId = useTreeStore((state) => state.activeProfileId);
+  const webcam = useTreeStore((state) => state.webcam);
   
   // Refs for loop management
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  const detectorRef = useRef<HandDetector | null>(null);
   const requestRef = useRef<number>(0);
+  const loopRef = useRef(0); // Bumped per loop, so results from a replaced loop are dropped
+  const sourceRef = useRef<VisionSource | null>(null);
+  const liveDetectRef = useRef<Detect | null>(null);
+  const pipelineRef = useRef(createHandPipeline(handFilter));
+  const recorderRef = useRef(createSessionRecorder());
+  const fallbackRef = useRef(createFallbackInput());
+
+  useEffect(() => {
+    pipelineRef.current.configure({ filter: handFilter });
+  }, [handFilter]);
+
+  useEffect(() => {
+    const { openThreshold } = getActiveCalibration(calibrationProfiles, activeProfileId);
+    pipelineRef.current.configure({ openThreshold });
+  }, [calibrationProfiles, activeProfileId]);
+
+  // Without a camera, keyboard / mouse / touch drive the same hand state
+  const startFallback = (message: string) => {
+    setErrorMessage(message);
+    setStatus(LoadingStatus.ERROR);
+    fallbackRef.current.start(window.matchMedia('(pointer: coarse)').matches ? 'touch' : 'keyboard');
+  };
 
   useEffect(() => {
+    let isCancelled = false;
+
     const setupVision = async () => {
       try {
         setStatus(LoadingStatus.LOADING_MODEL);
         
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
+        // Served from our own origin (see VisionAssets), GPU with CPU fallback, in a worker where possible
+        const detector = await createHandDetector(2);
+        if (isCancelled) {
+          detector.close();
+          return;
+        }
+        detectorRef.current = detector;
+        setIsDetectorReady(true);
 
         setStatus(LoadingStatus.READY);
-        startWebcam();
+        startSource(() => openWebcam(videoRef.current!, webcamOptions(useTreeStore.getState().webcam)));
       } catch (error) {
         console.error("Error initializing vision:", error);
-        setStatus(LoadingStatus.ERROR);
+        startFallback(describeSetupError(error));
       }
     };
 
-    setupVision();
+    // ?replay=<url> plays a recorded session instead of the webcam (no camera or model needed)
+    const replayUrl = new URLSearchParams(window.location.search).get('replay');
+    if (replayUrl) {
+      fetch(replayUrl)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.text();
+        })
+        .then((content) => startReplay(parseSessionRecording(content), replayUrl))
+        .catch((error) => {
+          console.error("Could not load replay:", error);
+          startFallback(`Replay failed: ${(error as Error).message}`);
+        });
+    } else {
+      setupVision();
+    }
 
     return () => {
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-      }
+      isCancelled = true;
+      sourceRef.current?.stop();
       cancelAnimationFrame(requestRef.current);
+      loopRef.current++;
+      detectorRef.current?.close();
+      fallbackRef.current.stop();
     };
   }, []);
 
-  const startWebcam = async () => {
+  /**
+   * Input Sources: webcam, video file or image folder, all detected the same way
+   */
+  const webcamOptions = (settings: typeof webcam) => {
+    const resolution = WEBCAM_RESOLUTIONS.find((r) => r.id === settings.resolution) ?? WEBCAM_RESOLUTIONS[0];
+    return { deviceId: settings.deviceId, width: resolution.width, height: resolution.height };
+  };
+
+  const startSource = async (open: () => Promise<VisionSource>) => {
+    const detector = detectorRef.current;
+    if (!detector) return;
+
+    cancelAnimationFrame(requestRef.current);
+    loopRef.current++;
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    liveDetectRef.current = null;
+
+    let source: VisionSource;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { width: 640, height: 480 } 
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.addEventListener('loadeddata', predictWebcam);
-      }
+      source = await open();
     } catch (err) {
-      console.error("Webcam access denied", err);
-      setStatus(LoadingStatus.ERROR);
+      console.error("Could not open vision source", err);
+      startFallback(describeSetupError(err));
+      return;
     }
-  };
 
-  /**
-   * Simple logic to detect if hand is open.
-   * We check if the finger tips are further from the wrist than the PIP joints (knuckles).
-   * Landmarks:
-   * 0: Wrist
-   * Tips: 8 (Index), 12 (Middle), 16 (Ring), 20 (Pinky)
-   * PIPs: 6, 10, 14, 18
-   */
-  const isHandOpen = (landmarks: NormalizedLandmark[]): boolean => {
-    const wrist = landmarks[0];
-    
-    // Check 4 fingers (Index, Middle, Ring, Pinky)
-    const distSq = (p1: NormalizedLandmark, p2: NormalizedLandmark) => {
-      return Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2);
+    // A working source takes over from the fallback controls
+    fallbackRef.current.stop();
+    useTreeStore.getState().setInputSource('camera');
+    setStatus(LoadingStatus.READY);
+    setReplayName(null);
+    setSourceKind(source.kind);
+    setSourceLabel(source.label);
+    sourceRef.current = source;
+    // Device labels only appear once camera permission has been granted
+    if (source.kind === 'webcam') listCameras().then(setCameras).catch(() => setCameras([]));
+
+    liveDetectRef.current = (timestamp) => {
+      const frame = source.frame(timestamp);
+      return frame ? detector.detect(frame, timestamp) : null;
     };
+    runLoop(liveDetectRef.current);
+  };
 
-    const fingerIndices = [
-      { tip: 8, pip: 6 },   // Index
-      { tip: 12, pip: 10 }, // Middle
-      { tip: 16, pip: 14 }, // Ring
-      { tip: 20, pip: 18 }  // Pinky
-    ];
-
-    let openFingers = 0;
-    for (const finger of fingerIndices) {
-      const distTip = distSq(wrist, landmarks[finger.tip]);
-      const distPip = distSq(wrist, landmarks[finger.pip]);
-      if (distTip > distPip) {
-        openFingers++;
-      }
-    }
+  const selectWebcam = (settings: typeof webcam) => {
+    useTreeStore.getState().setWebcam(settings);
+    startSource(() => openWebcam(videoRef.current!, webcamOptions(settings)));
+  };
+
+  const handleVideoFile = (file: File | undefined) => {
+    if (file) startSource(() => openVideoFile(videoRef.current!, file));
+  };
 
-    // Heuristic: If 3 or more fingers are extended, it's an "Open Hand"
-    return openFingers >= 3;
+  const handleImageFolder = (files: FileList | null) => {
+    if (files && files.length > 0) startSource(() => openImageSequence(frameCanvasRef.current!, Array.from(files)));
   };
 
-  const predictWebcam = () => {
-    const video = videoRef.current;
+  // Detection Loop: any detector (webcam or replay) feeds the same pipeline, at most INFERENCE_FPS
+  // and one frame in flight at a time, so a slow detector drops frames instead of queueing them
+  const runLoop = (detect: Detect) => {
+    cancelAnimationFrame(requestRef.current);
+    pipelineRef.current.reset();
+    const loop = ++loopRef.current;
+    let isBusy = false;
+    let lastRun = -Infinity;
+
+    const tick = () => {
+      const timestamp = performance.now();
+      if (!isBusy && timestamp - lastRun >= 1000 / INFERENCE_FPS) {
+        isBusy = true;
+        lastRun = timestamp;
+        Promise.resolve(detect(timestamp))
+          .then((detections) => {
+            if (detections && loop === loopRef.current) processFrame(detections, timestamp);
+          })
+          .catch((error) => console.error("Hand detection failed:", error))
+          .finally(() => { isBusy = false; });
+      }
+      requestRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const processFrame = (detections: HandDetections, timestamp: number) => {
+    const { setHands, setHandPosition, setActiveGesture, emitGesture } = useTreeStore.getState();
+    if (recorderRef.current.isRecording()) recorderRef.current.record(detections, timestamp);
+
+    // Clear canvas for debug drawing
     const canvas = canvasRef.current;
-    const landmarker = handLandmarkerRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const size = sourceRef.current?.size();
+      canvas.width = size?.width || 640;
+      canvas.height = size?.height || 480;
+    }
 
-    if (!video || !canvas || !landmarker) return;
+    // Tracking, smoothing, open/closed and gestures (see HandPipeline)
+    const frame = pipelineRef.current.update(detections, timestamp);
+    setHands(frame.hands.left?.state ?? null, frame.hands.right?.state ?? null);
 
-    // Detection Loop
-    const detect = () => {
-      if (video.currentTime > 0) {
-        const results = landmarker.detectForVideo(video, performance.now());
-        
-        // Clear canvas for debug drawing
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-        }
+    if (frame.primary) {
+      const { x: handX, y: handY, z: handSize } = frame.primary.state;
 
-        if (results.landmarks && results.landmarks.length > 0) {
-          const landmarks = results.landmarks[0];
-          
-          // 1. Get Hand Position
-          // Use Middle Finger MCP (9) as center anchor
-          const center = landmarks[9];
-          const wrist = landmarks[0];
-
-          // X: Mirror the X coordinate (1 - x) because webcam is mirrored
-          const handX = 1 - center.x; 
-          
-          // Y: Inverted for camera control (Moving hand UP on screen (y->0) means we want to look DOWN from above?)
-          // Prompt: "Hand move UP, look from ABOVE". 
-          // Screen Y 0 is Top. So Hand Up -> Y is small.
-          const handY = center.y;
-
-          // Z: Scale proxy. Distance from Wrist to Middle Finger MCP.
-          // Close hand -> Large Dist. Far hand -> Small Dist.
-          const dx = center.x - wrist.x;
-          const dy = center.y - wrist.y;
-          const handSize = Math.sqrt(dx*dx + dy*dy);
-          // Normalize rough range: Far ~0.1, Close ~0.4?
-          // We pass raw size, let App clamp/lerp it.
-          
-          // 2. Detect Gesture (Open vs Closed)
-          const isOpen = isHandOpen(landmarks);
-
-          // Update Zustand store
-          setHandPosition(handX, handY, handSize, true, isOpen);
-
-          // Draw landmarks for feedback
-          if (ctx) {
-            const drawingUtils = new DrawingUtils(ctx);
-            drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, {
-              color: isOpen ? "#00FFFF" : "#FF00FF", // Cyan for Open, Magenta for Closed
-              lineWidth: 2
-            });
-            drawingUtils.drawLandmarks(landmarks, { 
-              color: isOpen ? "#FFFFFF" : "#FF0000", 
-              lineWidth: 1,
-              radius: 3
-            });
-          }
-        } else {
-          // No hand detected
-          // setHandPosition(0.5, 0.5, 0.2, false, false);
-          // Keep last known or reset? Resetting is safer for UX to prevent stuck camera
-          // But gentle return is better handled in App.tsx. 
-          // We just flag isTracking = false
-          useTreeStore.getState().setHandPosition(0.5, 0.5, 0.5, false, false);
-        }
+      // Update Zustand store
+      setHandPosition(handX, handY, handSize, true, frame.isOpen);
+      frame.events.forEach(emitGesture);
+      setActiveGesture(frame.active.type, frame.active.confidence);
+
+      // Draw landmarks for feedback (Cyan for Open, Magenta for Closed)
+      if (ctx) {
+        const drawingUtils = new DrawingUtils(ctx);
+        [frame.hands.left, frame.hands.right].forEach((hand) => {
+          if (!hand) return;
+          drawingUtils.drawConnectors(hand.landmarks, HandLandmarker.HAND_CONNECTIONS, {
+            color: hand.state.isOpen ? "#00FFFF" : "#FF00FF",
+            lineWidth: 2
+          });
+          drawingUtils.drawLandmarks(hand.landmarks, { 
+            color: hand.state.isOpen ? "#FFFFFF" : "#FF0000", 
+            lineWidth: 1,
+            radius: 3
+          });
+        });
       }
-      requestRef.current = requestAnimationFrame(detect);
-    };
+    } else {
+      // No hand detected
+      // Keep last known or reset? Resetting is safer for UX to prevent stuck camera
+      // But gentle return is better handled in App.tsx. 
+      // We just flag isTracking = false
+      setHandPosition(0.5, 0.5, 0.5, false, false);
+      setActiveGesture(null, 0);
+    }
+  };
 
-    detect();
+  /**
+   * Recording & Replay
+   */
+  const startReplay = (recording: SessionRecording, name: string) => {
+    fallbackRef.current.stop();
+    useTreeStore.getState().setInputSource('camera');
+    setReplayName(name);
+    setStatus(LoadingStatus.READY);
+    const source = createReplaySource(recording, { loop: true });
+    runLoop(source.detect);
+  };
+
+  const stopReplay = () => {
+    setReplayName(null);
+    if (liveDetectRef.current) {
+      runLoop(liveDetectRef.current);
+    } else {
+      cancelAnimationFrame(requestRef.current);
+      loopRef.current++;
+      useTreeStore.getState().setHandPosition(0.5, 0.5, 0.5, false, false);
+      startFallback(errorMessage || 'No camera');
+    }
+  };
+
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      startReplay(parseSessionRecording(await file.text()), file.name);
+    } catch (error) {
+      window.alert(`Could not replay "${file.name}": ${(error as Error).message}`);
+    }
+  };
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder.isRecording()) {
+      recorder.start();
+      setIsRecording(true);
+      return;
+    }
+    setIsRecording(false);
+    const recording = recorder.stop();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hand-session-${recording.createdAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -187,9 +345,13 @@ const VisionManager: React.FC = () => {
         px-4 py-2 rounded-full mb-2 backdrop-blur-md border font-mono text-xs transition-all duration-500
         ${status === LoadingStatus.READY 
           ? 'bg-green-500/20 border-green-500/50 text-green-200' 
-          : 'bg-blue-500/20 border-blue-500/50 text-blue-200'}
+          : status === LoadingStatus.ERROR
+            ? 'bg-red-500/20 border-red-500/50 text-red-200 max-w-xs text-right'
+            : 'bg-blue-500/20 border-blue-500/50 text-blue-200'}
       `}>
-        {status === LoadingStatus.READY ? "System Active" : "Initializing Vision..."}
+        {status === LoadingStatus.READY
+          ? (replayName ? `Replaying ${replayName}` : sourceKind === 'webcam' ? "System Active" : `Playing ${sourceLabel}`)
+          : status === LoadingStatus.ERROR ? errorMessage : "Initializing Vision..."}
       </div>
 
       {/* Hidden container for webcam processing, visible for debugging/feedback */}
@@ -198,22 +360,114 @@ const VisionManager: React.FC = () => {
          {status === LoadingStatus.READY && (
            <div className="absolute inset-0 flex flex-col items-center justify-center text-[10px] text-white/70 text-center px-1 z-10 font-mono leading-tight">
              <span>Open Hand</span>
-             <span className="opacity-50 text-[8px] mt-1">Move to Orbit<br/>Push/Pull to Zoom</span>
+             <span className="opacity-50 text-[8px] mt-1">Move to Orbit<br/>Push/Pull to Zoom<br/>Two Hands: Spread / Twist</span>
+             {activeGesture && <span className="text-amber-300 text-[8px] mt-1 uppercase">{activeGesture}</span>}
+           </div>
+         )}
+         {inputSource !== 'camera' && (
+           <div className="absolute inset-0 flex flex-col items-center justify-center text-[10px] text-white/70 text-center px-1 z-10 font-mono leading-tight">
+             <span className="text-amber-200">{FALLBACK_HINTS[inputSource].label}</span>
+             <span className="opacity-50 text-[8px] mt-1">
+               {FALLBACK_HINTS[inputSource].lines.map((line) => <React.Fragment key={line}>{line}<br/></React.Fragment>)}
+             </span>
            </div>
          )}
         <video 
           ref={videoRef} 
           autoPlay 
           playsInline
-          className="absolute inset-0 w-full h-full object-cover opacity-60"
+          muted
+          className={`absolute inset-0 w-full h-full object-cover opacity-60 ${sourceKind === 'images' ? 'hidden' : ''}`}
           style={{ transform: 'scaleX(-1)' }} 
         />
+        {/* Image sequences are decoded onto this canvas */}
+        <canvas
+          ref={frameCanvasRef}
+          className={`absolute inset-0 w-full h-full object-cover opacity-60 ${sourceKind === 'images' ? '' : 'hidden'}`}
+          style={{ transform: 'scaleX(-1)' }}
+        />
         <canvas 
           ref={canvasRef}
           className="absolute inset-0 w-full h-full object-cover z-20"
           style={{ transform: 'scaleX(-1)' }} 
         />
       </div>
+
+      {/* Input Source: pick a camera and resolution, or play pre-recorded footage */}
+      {isDetectorReady && (
+        <div className="mt-1 flex flex-col items-end gap-1 font-mono text-[10px] text-white/50 pointer-events-auto">
+          <div className="flex gap-1">
+            <select
+              value={sourceKind === 'webcam' ? (webcam.deviceId ?? '') : sourceKind}
+              onChange={(e) => {
+                if (e.target.value === 'video') videoFileInputRef.current?.click();
+                else if (e.target.value === 'images') imageFolderInputRef.current?.click();
+                else selectWebcam({ ...webcam, deviceId: e.target.value || null });
+              }}
+              className="max-w-[8rem] px-1 rounded bg-black/60 border border-white/20 focus:outline-none"
+            >
+              <option value="" className="bg-black">Default camera</option>
+              {cameras.map((c) => <option key={c.deviceId} value={c.deviceId} className="bg-black">{c.label}</option>)}
+              <option value="video" className="bg-black">{sourceKind === 'video' ? sourceLabel : 'Video file…'}</option>
+              <option value="images" className="bg-black">{sourceKind === 'images' ? sourceLabel : 'Image folder…'}</option>
+            </select>
+            {sourceKind === 'webcam' && (
+              <select
+                value={webcam.resolution}
+                onChange={(e) => selectWebcam({ ...webcam, resolution: e.target.value })}
+                className="px-1 rounded bg-black/60 border border-white/20 focus:outline-none"
+              >
+                {WEBCAM_RESOLUTIONS.map((r) => <option key={r.id} value={r.id} className="bg-black">{r.label}</option>)}
+              </select>
+            )}
+          </div>
+          <input
+            ref={videoFileInputRef}
+            type="file"
+            accept="video/*"
+            className="hidden"
+            onChange={(e) => {
+              handleVideoFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={imageFolderInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            // Non-standard but supported by all major browsers: pick a whole directory
+            {...{ webkitdirectory: '' }}
+            className="hidden"
+            onChange={(e) => {
+              handleImageFolder(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {/* Session Recording: capture the landmark stream, or replay one in place of the webcam */}
+      <div className="mt-1 flex gap-2 font-mono text-[10px] text-white/50 pointer-events-auto">
+        {status === LoadingStatus.READY && !replayName && (
+          <button onClick={toggleRecording} className={isRecording ? 'text-red-400' : 'hover:text-white'}>
+            {isRecording ? '■ Stop Rec' : '● Rec'}
+          </button>
+        )}
+        {replayName
+          ? <button onClick={stopReplay} className="hover:text-white">Stop Replay</button>
+          : <button onClick={() => replayInputRef.current?.click()} className="hover:text-white">Replay…</button>}
+        <input
+          ref={replayInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleReplayFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,171 @@
+import { ImageSource } from '@mediapipe/tasks-vision';
+import { VisionSetupError } from './VisionAssets';
+
+/**
+ * Vision Sources
+ * Where the hand tracker gets its frames from: a webcam (any device, several resolutions),
+ * a local video file, or a folder of still frames. Pre-recorded footage makes demos repeatable
+ * and lets user-reported tracking bugs be reproduced offline.
+ */
+
+export type VisionSourceKind = 'webcam' | 'video' | 'images';
+
+export interface VisionSource {
+  kind: VisionSourceKind;
+  label: string;
+  /** The frame to run detection on now, or null while nothing is ready yet. */
+  frame: (timestamp: number) => ImageSource | null;
+  size: () => { width: number, height: number };
+  stop: () => void;
+}
+
+export const WEBCAM_RESOLUTIONS = [
+  { id: '480p', label: '640×480', width: 640, height: 480 },
+  { id: '720p', label: '1280×720', width: 1280, height: 720 },
+  { id: '1080p', label: '1920×1080', width: 1920, height: 1080 },
+];
+
+export const DEFAULT_IMAGE_SEQUENCE_FPS = 15;
+
+/**
+ * Cameras the page may use. Labels are blank until camera permission has been granted once.
+ */
+export const listCameras = async (): Promise<{ deviceId: string, label: string }[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((d) => d.kind === 'videoinput')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+};
+
+// Resolves once the element has a frame to show
+const whenLoaded = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return resolve();
+  video.addEventListener('loadeddata', () => resolve(), { once: true });
+  video.addEventListener('error', () => reject(new VisionSetupError('source', 'This video could not be played')), { once: true });
+});
+
+const videoFrame = (video: HTMLVideoElement) => () =>
+  video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.currentTime > 0 ? video : null;
+
+const videoSize = (video: HTMLVideoElement) => () => ({ width: video.videoWidth, height: video.videoHeight });
+
+/**
+ * Live camera. `deviceId` null picks the browser's default camera; a camera that has since been
+ * unplugged falls back to the default too (all constraints are "ideal", not "exact").
+ */
+export const openWebcam = async (
+  video: HTMLVideoElement,
+  options: { deviceId: string | null, width: number, height: number }
+): Promise<VisionSource> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: {
+      width: options.width,
+      height: options.height,
+      ...(options.deviceId ? { deviceId: { ideal: options.deviceId } } : {}),
+    },
+  });
+
+  video.srcObject = stream;
+  video.loop = false;
+  await whenLoaded(video);
+
+  return {
+    kind: 'webcam',
+    label: stream.getVideoTracks()[0]?.label || 'Camera',
+    frame: videoFrame(video),
+    size: videoSize(video),
+    stop: () => {
+      stream.getTracks().forEach((track) => track.stop());
+      video.srcObject = null;
+    },
+  };
+};
+
+/**
+ * Local video file, looped and muted.
+ */
+export const openVideoFile = async (video: HTMLVideoElement, file: File): Promise<VisionSource> => {
+  const url = URL.createObjectURL(file);
+  video.srcObject = null;
+  video.src = url;
+  video.loop = true;
+  video.muted = true;
+
+  try {
+    await whenLoaded(video);
+    await video.play();
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    video.removeAttribute('src');
+    throw error;
+  }
+
+  return {
+    kind: 'video',
+    label: file.name,
+    frame: videoFrame(video),
+    size: videoSize(video),
+    stop: () => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+};
+
+/**
+ * A folder of still frames played back at `fps`, in natural filename order (frame2 before frame10).
+ * Frames are decoded one at a time onto `canvas`, so long sequences don't sit in memory.
+ */
+export const openImageSequence = async (canvas: HTMLCanvasElement, files: File[], fps = DEFAULT_IMAGE_SEQUENCE_FPS): Promise<VisionSource> => {
+  const frames = files
+    .filter((f) => f.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  if (frames.length === 0) throw new VisionSetupError('source', 'No images found in that folder');
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new VisionSetupError('source', 'Canvas is not available');
+
+  let startedAt: number | null = null;
+  let shownIndex = -1;
+  let loadingIndex = -1;
+  let stopped = false;
+
+  const show = async (index: number) => {
+    loadingIndex = index;
+    try {
+      const bitmap = await createImageBitmap(frames[index]);
+      // A newer frame may have been requested while this one decoded
+      if (!stopped && loadingIndex === index) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        ctx.drawImage(bitmap, 0, 0);
+        shownIndex = index;
+      }
+      bitmap.close();
+    } catch (error) {
+      console.warn(`Skipping unreadable frame ${frames[index].name}:`, error);
+      shownIndex = index;
+    }
+  };
+
+  await show(0);
+
+  return {
+    kind: 'images',
+    label: `${frames.length} frames`,
+    frame: (timestamp) => {
+      if (startedAt === null) startedAt = timestamp;
+      const index = Math.floor(((timestamp - startedAt) / 1000) * fps) % frames.length;
+      if (index !== shownIndex && index !== loadingIndex) show(index);
+      return shownIndex >= 0 ? canvas : null;
+    },
+    size: () => ({ width: canvas.width, height: canvas.height }),
+    stop: () => {
+      stopped = true;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    },
+  };
+};
@@ -1,15 +1,36 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { useTreeStore, initPhotoPersistence, DEFAULT_TREE_CONFIG } from './store';
+import { readShareLink } from './shareLink';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// Settings rehydrate synchronously with the store; photos stream in from IndexedDB
+initPhotoPersistence();
+
+/**
+ * A shared link (#tree=...) fully describes a tree: anything missing or invalid in it falls back
+ * to the defaults. It is shown as a preview; the saved tree is only replaced if the user keeps it.
+ */
+const applySharedTree = async () => {
+  const { config, notice } = await readShareLink(window.location.hash);
+  const { previewSharedTree, setShareNotice } = useTreeStore.getState();
+
+  // A link that can't be read at all (damaged, or from a newer app) leaves the saved tree alone.
+  // The fragment stays until the user keeps or leaves the tree, so a reload shows the preview again.
+  if (config) previewSharedTree({ ...DEFAULT_TREE_CONFIG, ...config });
+  if (notice) setShareNotice(notice);
+};
+
+applySharedTree().finally(() => {
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
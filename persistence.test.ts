@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { migrateSettings, readSettings, SETTINGS_VERSION } from './persistence';
+
+describe('migrateSettings', () => {
+  it('walks a v1 record through every step', () => {
+    const v1 = {
+      blessings: ['Merry\n  Christmas', 'Peace on earth'],
+      headline: { top: 'HAPPY', bottom: 'HOLIDAYS' },
+      layoutSeed: 7,
+    };
+
+    expect(migrateSettings(v1, 1)).toEqual({
+      blessings: ['Merry\n  Christmas', 'Peace on earth'],
+      headline: { font: '', top: 'HAPPY', bottom: 'HOLIDAYS' },
+      layoutSeed: 7,
+    });
+  });
+
+  it('keeps a headline font that is already set', () => {
+    const headline = { top: 'NOEL', bottom: '', font: 'serif' };
+    expect(migrateSettings({ headline }, 2)).toEqual({ headline });
+  });
+
+  it('drops fields that are not valid once migrated', () => {
+    expect(migrateSettings({ blessings: 'not a list', headline: null, layoutSeed: 7 }, 1)).toEqual({ layoutSeed: 7 });
+    expect(migrateSettings({ blessings: ['One\ntwo', 3] }, 1)).toEqual({});
+  });
+
+  it('drops records it has no way to read', () => {
+    expect(migrateSettings({ layoutSeed: 7 }, 0)).toEqual({});
+    expect(migrateSettings({ layoutSeed: 7 }, SETTINGS_VERSION + 1)).toEqual({});
+    expect(migrateSettings(null, 1)).toEqual({});
+    expect(migrateSettings(['blessings'], 1)).toEqual({});
+  });
+});
+
+describe('readSettings', () => {
+  it('keeps the valid fields of a current record and drops the rest', () => {
+    const record = {
+      blessings: ['Peace on earth'],
+      headline: { top: 'MERRY', bottom: 7, font: '' },
+      colorTheme: 'plaid',
+      quality: 'auto',
+      activeProfileId: null,
+      sound: { volume: 0.5, muted: false, ambience: true },
+      lightShow: { pattern: 'program', program: [{ pattern: 'strobe', seconds: 5 }], speed: 1, brightness: 1 },
+      handX: 0.5,
+    };
+
+    expect(readSettings(record)).toEqual({
+      blessings: ['Peace on earth'],
+      quality: 'auto',
+      activeProfileId: null,
+      sound: { volume: 0.5, muted: false, ambience: true },
+    });
+    expect(readSettings('not a record')).toEqual({});
+  });
+});
@@ -0,0 +1,262 @@
+import { StateStorage } from 'zustand/middleware';
+import { PersistedSettings, UserPhoto } from './types';
+import { blobToDataUrl } from './components/PhotoProcessing';
+import { TREE_SHAPES } from './components/TreeShapes';
+import { isValidLayoutSeed } from './components/Random';
+import { COLOR_THEME_IDS } from './components/ColorThemes';
+import { QUALITY_LEVELS } from './components/QualityManager';
+import { FORMATIONS } from './components/Formations';
+import { LIGHT_PATTERNS } from './components/LightSequences';
+
+/**
+ * Local Persistence
+ * - Settings: small JSON record in localStorage (versioned, migrated by the store's persist middleware)
+ * - Photos: image blobs in IndexedDB, too large for localStorage's ~5MB budget
+ */
+
+export const SETTINGS_STORAGE_KEY = 'holotree-settings';
+
+// Bump when the persisted settings shape changes, and add a step to SETTINGS_MIGRATIONS
+export const SETTINGS_VERSION = 3;
+
+// A stored record of any version, before migration: each step checks the fields it changes
+type SettingsRecord = Record<string, unknown>;
+
+const isSettingsRecord = (value: unknown): value is SettingsRecord => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+// Each entry upgrades a record from version `key` to `key + 1`
+const SETTINGS_MIGRATIONS: Record<number, (state: SettingsRecord) => SettingsRecord> = {
+  // v2: cards wrap their own text. Line breaks already in a message stay, as paragraph breaks,
+  // the same as ones typed in the editor or imported from a file
+  1: (state) => state,
+  // v3: headlines gained a font; older ones used the built-in typeface
+  2: (state) => (isSettingsRecord(state.headline) ? { ...state, headline: { font: '', ...state.headline } } : state),
+};
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isNullable = (check: FieldCheck): FieldCheck => (value) => value === null || check(value);
+const isOneOf = (values: readonly unknown[]): FieldCheck => (value) => values.includes(value);
+const isListOf = (check: FieldCheck): FieldCheck => (value) => Array.isArray(value) && value.every(check);
+const isRecordOf = (fields: Record<string, FieldCheck>): FieldCheck => (value) => (
+  isSettingsRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]))
+);
+
+const LIGHT_PATTERN_IDS = LIGHT_PATTERNS.map((p) => p.id);
+
+// What each persisted field must look like in the current version
+const SETTINGS_FIELDS: Record<keyof PersistedSettings, FieldCheck> = {
+  blessings: isListOf(isString),
+  headline: isRecordOf({ top: isString, bottom: isString, font: isString }),
+  ornamentCounts: isRecordOf({ primary: isNumber, secondary: isNumber, accent: isNumber, small: isNumber, lights: isNumber }),
+  cardThemes: isListOf(isString),
+  customThemes: isListOf(isRecordOf({
+    id: isString, name: isString, background: isString, text: isString, border: isString, font: isString, footer: isString, decoration: isString,
+  })),
+  treeShape: isRecordOf({ id: isOneOf(TREE_SHAPES.map((s) => s.id)), height: isNumber, width: isNumber, profile: isListOf(isNumber) }),
+  layoutSeed: isValidLayoutSeed,
+  colorTheme: isOneOf(COLOR_THEME_IDS),
+  photoMode: isOneOf(['mixed', 'photos']),
+  handFilter: isRecordOf({ minCutoff: isNumber, beta: isNumber, openHoldMs: isNumber, closeHoldMs: isNumber }),
+  webcam: isRecordOf({ deviceId: isNullable(isString), resolution: isString }),
+  calibrationProfiles: isListOf(isRecordOf({
+    id: isString, name: isString, xMin: isNumber, xMax: isNumber, yMin: isNumber, yMax: isNumber, zFar: isNumber, zNear: isNumber, openThreshold: isNumber,
+  })),
+  activeProfileId: isNullable(isString),
+  quality: isOneOf(['auto', ...QUALITY_LEVELS]),
+  formation: isRecordOf({ id: isOneOf(FORMATIONS.map((f) => f.id)), cycle: isBoolean, text: isString, silhouette: isListOf(isNumber) }),
+  lightShow: isRecordOf({
+    pattern: isOneOf([...LIGHT_PATTERN_IDS, 'program']),
+    program: isListOf(isRecordOf({ pattern: isOneOf(LIGHT_PATTERN_IDS), seconds: isNumber })),
+    speed: isNumber,
+    brightness: isNumber,
+  }),
+  music: isRecordOf({ sensitivity: isNumber }),
+  sound: isRecordOf({ volume: isNumber, muted: isBoolean, ambience: isBoolean }),
+};
+
+/**
+ * Keeps the fields of a current-version record that have the shape this app expects.
+ * Anything missing, unknown or hand-edited into the wrong type is left out, so the store keeps its default.
+ */
+export const readSettings = (persisted: unknown): Partial<PersistedSettings> => {
+  if (!isSettingsRecord(persisted)) return {};
+  const fields = Object.entries(SETTINGS_FIELDS).filter(([key, check]) => key in persisted && check(persisted[key]));
+  return Object.fromEntries(fields.map(([key]) => [key, persisted[key]]));
+};
+
+/**
+ * Walks an old settings record forward one version at a time, then keeps only the fields that came out valid.
+ * Records from an unknown (newer or pre-versioning) schema are dropped, so the store falls back to defaults.
+ */
+export const migrateSettings = (persisted: unknown, version: number): Partial<PersistedSettings> => {
+  if (!isSettingsRecord(persisted) || version > SETTINGS_VERSION) return {};
+  let state = persisted;
+  for (let v = version; v < SETTINGS_VERSION; v++) {
+    const step = SETTINGS_MIGRATIONS[v];
+    if (!step) return {};
+    state = step(state);
+  }
+  return readSettings(state);
+};
+
+export const isQuotaError = (error: unknown) => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+/**
+ * localStorage wrapper that reports quota failures instead of throwing out of a store update.
+ */
+export const createSafeLocalStorage = (onError: (message: string) => void): StateStorage => ({
+  getItem: (name) => {
+    try {
+      return localStorage.getItem(name);
+    } catch {
+      return null;
+    }
+  },
+  setItem: (name, value) => {
+    try {
+      localStorage.setItem(name, value);
+    } catch (error) {
+      onError(isQuotaError(error)
+        ? 'Browser storage is full. Settings will not be saved.'
+        : 'Settings could not be saved in this browser.');
+    }
+  },
+  removeItem: (name) => {
+    try {
+      localStorage.removeItem(name);
+    } catch {
+      // Nothing stored, nothing to remove
+    }
+  },
+});
+
+/**
+ * IndexedDB Photo Store
+ */
+const DB_NAME = 'holotree';
+const DB_VERSION = 1;
+const PHOTO_STORE = 'photos';
+
+interface PhotoRecord {
+  id: string;
+  blob: Blob;
+  caption: string;
+  order: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Schema migrations: run every step above the version the browser already has
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry after a failed open (e.g. private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runTransaction = async (mode: IDBTransactionMode, work: (store: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE, mode);
+    work(tx.objectStore(PHOTO_STORE));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadPhotos = async (): Promise<UserPhoto[]> => {
+  let records: PhotoRecord[] = [];
+  await runTransaction('readonly', (store) => {
+    const request = store.getAll();
+    request.onsuccess = () => { records = request.result; };
+  });
+
+  records.sort((a, b) => a.order - b.order);
+  return Promise.all(records.map(async (r) => ({
+    id: r.id,
+    url: await blobToDataUrl(r.blob),
+    caption: r.caption,
+  })));
+};
+
+/**
+ * Writes the difference between two photo lists: new photos are stored as blobs,
+ * removed ones deleted, and caption/order changes rewritten in place.
+ */
+export const savePhotoChanges = async (photos: UserPhoto[], previous: UserPhoto[]): Promise<void> => {
+  const previousById = new Map(previous.map((p, i) => [p.id, { photo: p, order: i }]));
+  const currentIds = new Set(photos.map((p) => p.id));
+
+  // Blobs must be ready before the transaction opens: IDB transactions auto-commit across awaits
+  const added = await Promise.all(
+    photos
+      .map((photo, order) => ({ photo, order }))
+      .filter(({ photo }) => !previousById.has(photo.id))
+      .map(async ({ photo, order }) => ({
+        id: photo.id,
+        blob: await (await fetch(photo.url)).blob(),
+        caption: photo.caption,
+        order,
+      } as PhotoRecord))
+  );
+
+  await runTransaction('readwrite', (store) => {
+    added.forEach((record) => store.put(record));
+
+    previous.forEach((p) => {
+      if (!currentIds.has(p.id)) store.delete(p.id);
+    });
+
+    photos.forEach((photo, order) => {
+      const before = previousById.get(photo.id);
+      if (!before || (before.photo.caption === photo.caption && before.order === order)) return;
+      const request = store.get(photo.id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, caption: photo.caption, order });
+      };
+    });
+  });
+};
+
+export const clearPhotos = (): Promise<void> => runTransaction('readwrite', (store) => store.clear());
+
+/**
+ * Asks the browser not to evict our data under storage pressure (matters for long-running kiosks).
+ */
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch {
+    // Best effort only
+  }
+};
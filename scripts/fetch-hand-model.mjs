@@ -0,0 +1,22 @@
+// Downloads the MediaPipe hand landmark model into public/models so the app can run without internet.
+// Run once on a connected machine (`npm run fetch:model`), then build or copy the project to the offline device.
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = path.resolve('public/models/hand_landmarker.task');
+
+if (existsSync(target)) {
+  console.log(`Model already present: ${target}`);
+  process.exit(0);
+}
+
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  console.error(`Download failed: HTTP ${response.status} from ${MODEL_URL}`);
+  process.exit(1);
+}
+
+mkdirSync(path.dirname(target), { recursive: true });
+writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+console.log(`Saved ${target}`);
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createShareLink, readShareLink } from './shareLink';
+import { DEFAULT_TREE_CONFIG } from './store';
+import { TreeConfig } from './types';
+
+const config: TreeConfig = {
+  ...DEFAULT_TREE_CONFIG,
+  blessings: ['Peace on earth', 'Joy\n\nto the world'],
+  headline: { top: 'HAPPY', bottom: 'HOLIDAYS', font: 'Georgia' },
+  ornamentCounts: { primary: 10, secondary: 20, accent: 30, small: 40, lights: 5 },
+  layoutSeed: 424242,
+  colorTheme: 'icy',
+};
+
+const toBase64Url = (text: string) => Buffer.from(text).toString('base64url');
+
+const compress = async (text: string) => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return Buffer.from(await new Response(stream).arrayBuffer()).toString('base64url');
+};
+
+describe('share links', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { href: 'https://tree.example/app?kiosk=1' } });
+    vi.spyOn(console, 'error').mockImplementation(() => {}); // Damaged links are logged
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips a tree through the link', async () => {
+    const link = new URL(await createShareLink(config));
+
+    expect(link.search).toBe('?kiosk=1');
+    expect(link.hash.startsWith('#tree=z')).toBe(true);
+    expect(await readShareLink(link.hash)).toEqual({ config, notice: null });
+  });
+
+  it('reads uncompressed links', async () => {
+    const hash = '#tree=j' + toBase64Url(JSON.stringify({ v: 1, r: 7, p: 'neon' }));
+    expect(await readShareLink(hash)).toEqual({ config: { layoutSeed: 7, colorTheme: 'neon' }, notice: null });
+  });
+
+  it('accepts an empty message list', async () => {
+    const hash = new URL(await createShareLink({ ...config, blessings: [] })).hash;
+    expect(await readShareLink(hash)).toEqual({ config: { ...config, blessings: [] }, notice: null });
+  });
+
+  it('ignores pages without a tree', async () => {
+    expect(await readShareLink('')).toEqual({ config: null, notice: null });
+    expect(await readShareLink('#settings')).toEqual({ config: null, notice: null });
+  });
+
+  it('keeps the valid fields of a partly invalid link', async () => {
+    const hash = '#tree=j' + toBase64Url(JSON.stringify({ v: 1, r: 7, p: 'plaid', o: [1, 2] }));
+    expect(await readShareLink(hash)).toEqual({
+      config: { layoutSeed: 7 },
+      notice: 'Some shared settings were invalid and were ignored: ornament counts, colour theme.',
+    });
+  });
+
+  it('refuses more ornaments than the settings allow', async () => {
+    const hash = '#tree=j' + toBase64Url(JSON.stringify({ v: 1, r: 7, o: [300, 300, 300, 300, 101] }));
+    expect(await readShareLink(hash)).toEqual({
+      config: { layoutSeed: 7 },
+      notice: 'Some shared settings were invalid and were ignored: ornament counts.',
+    });
+  });
+
+  it('returns no config for damaged links', async () => {
+    for (const hash of ['#tree=zAAAA', '#tree=j' + toBase64Url('{"v":1,'), '#tree=x' + toBase64Url('{"v":1}'), '#tree=j' + toBase64Url('[1]')]) {
+      const { config: shared, notice } = await readShareLink(hash);
+      expect(shared).toBeNull();
+      expect(notice).toMatch(/damaged/);
+    }
+  });
+
+  it('returns no config for links from a newer version', async () => {
+    const { config: shared, notice } = await readShareLink('#tree=j' + toBase64Url(JSON.stringify({ v: 2, r: 7 })));
+    expect(shared).toBeNull();
+    expect(notice).toMatch(/newer version/);
+  });
+
+  it('refuses payloads that inflate past the size limit', async () => {
+    const payload = JSON.stringify({ v: 1, b: ['x'.repeat(1024 * 1024)] });
+    const { config: shared, notice } = await readShareLink('#tree=z' + await compress(payload));
+    expect(shared).toBeNull();
+    expect(notice).toMatch(/damaged/);
+  });
+});
@@ -0,0 +1,276 @@
+import { TreeConfig, OrnamentCounts, TreeShapeId, ColorThemeId } from './types';
+import { MAX_BLESSINGS, MAX_BLESSING_LENGTH } from './components/Blessings';
+import { StationeryTheme, hasDecoration } from './components/StationeryThemes';
+import { TREE_SHAPES, TREE_SIZE_LIMITS, PROFILE_POINTS } from './components/TreeShapes';
+import { isValidLayoutSeed } from './components/Random';
+import { COLOR_THEME_IDS } from './components/ColorThemes';
+import { MAX_ORNAMENT_COUNTS } from './store';
+
+/**
+ * Shareable Tree Links
+ * The tree configuration is packed into the URL fragment as `#tree=<format><payload>`:
+ * - format 'z': deflate-raw compressed JSON, base64url encoded
+ * - format 'j': plain JSON, base64url encoded (browsers without CompressionStream)
+ * The fragment never reaches a server, so the link works on static hosting.
+ */
+
+const FRAGMENT_KEY = 'tree=';
+
+// Bump when the payload layout changes; old links keep decoding through `decodePayload`
+const SHARE_VERSION = 1;
+
+const LIMITS = {
+  maxBlessings: MAX_BLESSINGS,
+  maxBlessingLength: MAX_BLESSING_LENGTH,
+  maxHeadlineLength: 32,
+  maxFontLength: 120,
+  maxThemes: 20,
+  maxThemeIdLength: 64,
+  maxThemeNameLength: 32,
+};
+
+// Well above the largest valid payload (every message at full length), so a small crafted
+// link can't inflate into something huge before it is parsed
+const MAX_PAYLOAD_BYTES = 256 * 1024;
+
+const ORNAMENT_KEYS: (keyof OrnamentCounts)[] = ['primary', 'secondary', 'accent', 'small', 'lights'];
+
+// Compact wire format: short keys keep the URL small
+interface SharePayloadV1 {
+  v: 1;
+  b?: string[]; // blessings
+  h?: [string, string] | [string, string, string]; // headline top/bottom, optional font
+  o?: number[]; // ornament counts in ORNAMENT_KEYS order
+  s?: string[]; // card theme ids
+  c?: string[][]; // custom themes as [id, name, background, text, border, font, footer, decoration]
+  t?: [TreeShapeId, number, number, number[]]; // tree shape: id, height, width, profile
+  r?: number; // layout seed
+  p?: ColorThemeId; // colour theme
+}
+
+export interface ShareLinkResult {
+  config: Partial<TreeConfig> | null;
+  notice: string | null;
+}
+
+/**
+ * Base64url helpers
+ */
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+// Reads the transformed bytes, giving up as soon as there are more than `maxBytes`
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream, maxBytes = Infinity) => {
+  const reader = new Blob([bytes.slice()]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Share payload is over ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+/**
+ * Validation
+ * Every field is optional and checked on its own, so one bad field doesn't discard the rest.
+ */
+const isValidText = (value: unknown, maxLength: number): value is string => {
+  return typeof value === 'string' && value.length <= maxLength;
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const parseCustomTheme = (fields: unknown): StationeryTheme | null => {
+  if (!Array.isArray(fields) || fields.length !== 8) return null;
+  const [id, name, background, text, border, font, footer, decoration] = fields;
+  const valid = isValidText(id, LIMITS.maxThemeIdLength) &&
+    isValidText(name, LIMITS.maxThemeNameLength) &&
+    [background, text, border].every((c) => typeof c === 'string' && HEX_COLOR.test(c)) &&
+    isValidText(font, LIMITS.maxFontLength) &&
+    isValidText(footer, LIMITS.maxThemeNameLength) &&
+    typeof decoration === 'string' && hasDecoration(decoration);
+  return valid ? { id, name, background, text, border, font, footer, decoration } : null;
+};
+
+const validatePayload = (payload: SharePayloadV1) => {
+  const config: Partial<TreeConfig> = {};
+  const rejected: string[] = [];
+
+  if (payload.b !== undefined) {
+    // An empty list is a tree showing the default messages, same as on the sender's screen
+    const valid = Array.isArray(payload.b) &&
+      payload.b.length <= LIMITS.maxBlessings &&
+      payload.b.every((m) => isValidText(m, LIMITS.maxBlessingLength));
+    if (valid) config.blessings = payload.b;
+    else rejected.push('messages');
+  }
+
+  if (payload.h !== undefined) {
+    const valid = Array.isArray(payload.h) &&
+      (payload.h.length === 2 || payload.h.length === 3) &&
+      isValidText(payload.h[0], LIMITS.maxHeadlineLength) &&
+      isValidText(payload.h[1], LIMITS.maxHeadlineLength) &&
+      (payload.h[2] === undefined || isValidText(payload.h[2], LIMITS.maxFontLength));
+    if (valid) config.headline = { top: payload.h[0], bottom: payload.h[1], font: payload.h[2] ?? '' };
+    else rejected.push('headline');
+  }
+
+  if (payload.o !== undefined) {
+    const valid = Array.isArray(payload.o) &&
+      payload.o.length === ORNAMENT_KEYS.length &&
+      payload.o.every((n, i) => Number.isInteger(n) && n >= 0 && n <= MAX_ORNAMENT_COUNTS[ORNAMENT_KEYS[i]]);
+    if (valid) {
+      config.ornamentCounts = ORNAMENT_KEYS.reduce((counts, k, i) => ({ ...counts, [k]: payload.o![i] }), {} as OrnamentCounts);
+    } else {
+      rejected.push('ornament counts');
+    }
+  }
+
+  if (payload.c !== undefined) {
+    const themes = Array.isArray(payload.c) && payload.c.length <= LIMITS.maxThemes
+      ? payload.c.map(parseCustomTheme)
+      : [null];
+    if (themes.every((t) => t !== null)) config.customThemes = themes as StationeryTheme[];
+    else rejected.push('custom card styles');
+  }
+
+  if (payload.s !== undefined) {
+    const valid = Array.isArray(payload.s) &&
+      payload.s.length > 0 &&
+      payload.s.length <= LIMITS.maxThemes &&
+      payload.s.every((id) => isValidText(id, LIMITS.maxThemeIdLength));
+    if (valid) config.cardThemes = payload.s;
+    else rejected.push('card styles');
+  }
+
+  if (payload.t !== undefined) {
+    const [id, height, width, profile] = Array.isArray(payload.t) ? payload.t : [];
+    const inRange = (n: unknown, { min, max }: { min: number, max: number }) => typeof n === 'number' && n >= min && n <= max;
+    const valid = TREE_SHAPES.some((shape) => shape.id === id) &&
+      inRange(height, TREE_SIZE_LIMITS.height) &&
+      inRange(width, TREE_SIZE_LIMITS.width) &&
+      Array.isArray(profile) &&
+      profile.length === PROFILE_POINTS &&
+      profile.every((r) => inRange(r, { min: 0, max: 1 }));
+    if (valid) config.treeShape = { id: id as TreeShapeId, height: height as number, width: width as number, profile: profile as number[] };
+    else rejected.push('tree shape');
+  }
+
+  if (payload.r !== undefined) {
+    if (isValidLayoutSeed(payload.r)) config.layoutSeed = payload.r;
+    else rejected.push('layout');
+  }
+
+  if (payload.p !== undefined) {
+    if (COLOR_THEME_IDS.includes(payload.p)) config.colorTheme = payload.p;
+    else rejected.push('colour theme');
+  }
+
+  return { config, rejected };
+};
+
+// Upgrades older payload versions to the current layout. Returns null for links from a newer app version.
+const decodePayload = (raw: unknown): SharePayloadV1 | null => {
+  if (typeof raw !== 'object' || raw === null) throw new Error('Share payload is not an object');
+  const version = (raw as { v?: unknown }).v;
+  if (version === 1) return raw as SharePayloadV1;
+  if (typeof version === 'number' && version > SHARE_VERSION) return null;
+  throw new Error(`Unknown share payload version "${String(version)}"`);
+};
+
+/**
+ * Builds a full URL for the current page that restores `config` when opened.
+ */
+export const createShareLink = async (config: TreeConfig): Promise<string> => {
+  const payload: SharePayloadV1 = {
+    v: SHARE_VERSION,
+    b: config.blessings,
+    h: config.headline.font
+      ? [config.headline.top, config.headline.bottom, config.headline.font]
+      : [config.headline.top, config.headline.bottom],
+    o: ORNAMENT_KEYS.map((k) => config.ornamentCounts[k]),
+    s: config.cardThemes,
+    c: config.customThemes.map((t) => [t.id, t.name, t.background, t.text, t.border, t.font, t.footer, t.decoration as string]),
+    t: [config.treeShape.id, config.treeShape.height, config.treeShape.width, config.treeShape.profile],
+    r: config.layoutSeed,
+    p: config.colorTheme,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+
+  const fragment = canCompress()
+    ? 'z' + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))
+    : 'j' + toBase64Url(json);
+
+  const url = new URL(window.location.href);
+  url.hash = FRAGMENT_KEY + fragment;
+  return url.toString();
+};
+
+/**
+ * Parses a `#tree=...` fragment. Returns no config (and no notice) when the link carries no tree,
+ * no config and a notice when the link can't be read at all, and a config plus a notice
+ * naming what was ignored when only some fields are invalid.
+ */
+export const readShareLink = async (hash: string): Promise<ShareLinkResult> => {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(FRAGMENT_KEY)) return { config: null, notice: null };
+
+  const body = fragment.slice(FRAGMENT_KEY.length);
+  const format = body.charAt(0);
+
+  try {
+    let bytes = fromBase64Url(body.slice(1));
+    if (format === 'z') {
+      if (!canCompress()) {
+        return { config: null, notice: 'This browser cannot open compressed tree links. Showing your own tree instead.' };
+      }
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'), MAX_PAYLOAD_BYTES);
+    } else if (format !== 'j') {
+      throw new Error(`Unknown share format "${format}"`);
+    } else if (bytes.length > MAX_PAYLOAD_BYTES) {
+      throw new Error(`Share payload is over ${MAX_PAYLOAD_BYTES} bytes`);
+    }
+
+    const payload = decodePayload(JSON.parse(new TextDecoder().decode(bytes)));
+    if (!payload) {
+      return { config: null, notice: 'This tree link was made by a newer version of the app. Showing your own tree instead.' };
+    }
+
+    const { config, rejected } = validatePayload(payload);
+    return {
+      config,
+      notice: rejected.length > 0 ? `Some shared settings were invalid and were ignored: ${rejected.join(', ')}.` : null,
+    };
+  } catch (error) {
+    console.error("Could not read shared tree link:", error);
+    return { config: null, notice: 'This tree link is damaged. Showing your own tree instead.' };
+  }
+};
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_TREE_CONFIG, subscribeGestures, useTreeStore } from './store';
+import { readSettings, SETTINGS_STORAGE_KEY } from './persistence';
+import { GestureEvent, GestureType, TreeConfig } from './types';
+import { StationeryTheme } from './components/StationeryThemes';
+
+const gesture = (id: number, type: GestureType): GestureEvent => ({ id, type, confidence: 1, x: 0.5, y: 0.5, timestamp: id * 16 });
+
+describe('gesture events', () => {
+  it('delivers every gesture from one frame, in order', () => {
+    const received: GestureType[] = [];
+    const unsubscribe = subscribeGestures((event) => received.push(event.type));
+
+    [gesture(1, 'swipe-right'), gesture(2, 'pinch'), gesture(3, 'thumbs-up')].forEach(useTreeStore.getState().emitGesture);
+    expect(received).toEqual(['swipe-right', 'pinch', 'thumbs-up']);
+
+    unsubscribe();
+    useTreeStore.getState().emitGesture(gesture(4, 'fist'));
+    expect(received).toHaveLength(3);
+  });
+});
+
+describe('saved settings', () => {
+  it('reads back everything the store saves', () => {
+    const { partialize } = useTreeStore.persist.getOptions();
+    const saved = JSON.parse(JSON.stringify(partialize!(useTreeStore.getState())));
+    expect(readSettings(saved)).toEqual(saved);
+  });
+});
+
+const theme = (id: string, name: string): StationeryTheme => ({
+  id, name, background: '#fff', text: '#000', border: '#000', font: 'serif', footer: '', decoration: 'none',
+});
+
+describe('shared tree previews', () => {
+  const shared: TreeConfig = { ...DEFAULT_TREE_CONFIG, blessings: ['From a friend'], customThemes: [theme('b', 'Theirs'), theme('c', 'New')] };
+  const saved = () => JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null').state;
+
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+    useTreeStore.getState().resetToDefaults();
+    useTreeStore.getState().setBlessings(['My own']);
+    useTreeStore.getState().saveCustomTheme(theme('a', 'Mine'));
+    useTreeStore.getState().saveCustomTheme(theme('b', 'Mine too'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shows the shared tree but keeps saving the user\'s own', () => {
+    useTreeStore.getState().previewSharedTree(shared);
+
+    expect(useTreeStore.getState().blessings).toEqual(['From a friend']);
+    expect(useTreeStore.getState().customThemes.map((t) => t.name)).toEqual(['Mine', 'Theirs', 'New']);
+    expect(saved().blessings).toEqual(['My own']);
+    expect(saved().customThemes.map((t: StationeryTheme) => t.name)).toEqual(['Mine', 'Mine too']);
+  });
+
+  it('saves the shared tree once it is kept', () => {
+    useTreeStore.getState().previewSharedTree(shared);
+    useTreeStore.getState().keepSharedTree();
+
+    expect(useTreeStore.getState().ownTree).toBeNull();
+    expect(saved().blessings).toEqual(['From a friend']);
+    expect(saved().customThemes.map((t: StationeryTheme) => t.name)).toEqual(['Mine', 'Theirs', 'New']);
+  });
+
+  it('goes back to the user\'s own tree, even after a second link', () => {
+    useTreeStore.getState().previewSharedTree(shared);
+    useTreeStore.getState().previewSharedTree({ ...shared, blessings: ['Another friend'] });
+    useTreeStore.getState().discardSharedTree();
+
+    expect(useTreeStore.getState().ownTree).toBeNull();
+    expect(useTreeStore.getState().blessings).toEqual(['My own']);
+    expect(useTreeStore.getState().customThemes.map((t) => t.name)).toEqual(['Mine', 'Mine too']);
+    expect(saved().blessings).toEqual(['My own']);
+  });
+});
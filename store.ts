@@ -1,13 +1,232 @@
 import { create } from 'zustand';
-import { TreeState } from './types';
-
-export const useTreeStore = create<TreeState>((set) => ({
-  handX: 0.5,
-  handY: 0.5,
-  handZ: 0.5,
-  isTracking: false,
-  isHandOpen: false,
-  userPhotos: [],
-  setHandPosition: (x, y, z, isTracking, isHandOpen) => set({ handX: x, handY: y, handZ: z, isTracking, isHandOpen }),
-  addUserPhotos: (photos) => set((state) => ({ userPhotos: [...state.userPhotos, ...photos] })),
-}));
\ No newline at end of file
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { GestureEvent, OrnamentCounts, PersistedSettings, TreeConfig, TreeState, UserPhoto } from './types';
+import { DEFAULT_BLESSINGS } from './components/Blessings';
+import { DEFAULT_CARD_THEMES } from './components/StationeryThemes';
+import { DEFAULT_HAND_FILTER } from './components/HandFilter';
+import { DEFAULT_TREE_SHAPE } from './components/TreeShapes';
+import { DEFAULT_FORMATION } from './components/Formations';
+import { DEFAULT_LAYOUT_SEED } from './components/Random';
+import { DEFAULT_COLOR_THEME } from './components/ColorThemes';
+import { DEFAULT_LIGHT_SHOW } from './components/LightSequences';
+import { DEFAULT_MUSIC } from './components/AudioAnalysis';
+import { DEFAULT_SOUND } from './components/SoundEffects';
+import {
+  SETTINGS_STORAGE_KEY,
+  SETTINGS_VERSION,
+  migrateSettings,
+  readSettings,
+  createSafeLocalStorage,
+  isQuotaError,
+  loadPhotos,
+  savePhotoChanges,
+  requestPersistentStorage,
+} from './persistence';
+
+// The most of each ornament the settings allow (lights are per colour, and there are four colours)
+export const MAX_ORNAMENT_COUNTS: OrnamentCounts = { primary: 300, secondary: 300, accent: 300, small: 300, lights: 100 };
+
+export const DEFAULT_TREE_CONFIG: TreeConfig = {
+  blessings: DEFAULT_BLESSINGS,
+  headline: { top: 'MERRY', bottom: 'CHRISTMAS', font: '' },
+  ornamentCounts: { primary: 120, secondary: 90, accent: 90, small: 60, lights: 24 },
+  cardThemes: DEFAULT_CARD_THEMES,
+  customThemes: [],
+  treeShape: DEFAULT_TREE_SHAPE,
+  layoutSeed: DEFAULT_LAYOUT_SEED,
+  colorTheme: DEFAULT_COLOR_THEME,
+};
+
+// User-facing configuration restored by "Reset to defaults"
+const DEFAULT_SETTINGS = {
+  ...DEFAULT_TREE_CONFIG,
+  photoMode: 'mixed' as const,
+  handFilter: DEFAULT_HAND_FILTER,
+  quality: 'auto' as const,
+  formation: DEFAULT_FORMATION,
+  lightShow: DEFAULT_LIGHT_SHOW,
+  music: DEFAULT_MUSIC,
+  sound: DEFAULT_SOUND,
+};
+
+const pickTreeConfig = (tree: TreeConfig): TreeConfig => ({
+  blessings: tree.blessings,
+  headline: tree.headline,
+  ornamentCounts: tree.ornamentCounts,
+  cardThemes: tree.cardThemes,
+  customThemes: tree.customThemes,
+  treeShape: tree.treeShape,
+  layoutSeed: tree.layoutSeed,
+  colorTheme: tree.colorTheme,
+});
+
+type GestureListener = (event: GestureEvent) => void;
+
+const gestureListeners = new Set<GestureListener>();
+
+/**
+ * Calls `listener` for every discrete gesture, in order. Gestures are events rather than state:
+ * several can fire on one frame (a swipe that ends in a pinch), and a state field would only keep
+ * the last. Returns the unsubscribe function, so it can be returned from an effect.
+ */
+export const subscribeGestures = (listener: GestureListener) => {
+  gestureListeners.add(listener);
+  return () => {
+    gestureListeners.delete(listener);
+  };
+};
+
+const reportStorageWarning = (message: string) => {
+  // Guard against re-entrant writes: setting the warning triggers another (failing) save
+  if (useTreeStore.getState().storageWarning !== message) {
+    useTreeStore.getState().setStorageWarning(message);
+  }
+};
+
+export const useTreeStore = create<TreeState>()(
+  persist<TreeState, [], [], Partial<PersistedSettings>>(
+    (set) => ({
+      handX: 0.5,
+      handY: 0.5,
+      handZ: 0.5,
+      isTracking: false,
+      isHandOpen: false,
+      hands: { left: null, right: null },
+      activeGesture: null,
+      gestureConfidence: 0,
+      inputSource: 'camera',
+      webcam: { deviceId: null, resolution: '480p' },
+      calibrationProfiles: [],
+      activeProfileId: null,
+      qualityLevel: 'high',
+      userPhotos: [],
+      ...DEFAULT_SETTINGS,
+      storageWarning: null,
+      shareNotice: null,
+      ownTree: null,
+      setHandPosition: (x, y, z, isTracking, isHandOpen) => set({ handX: x, handY: y, handZ: z, isTracking, isHandOpen }),
+      setHands: (left, right) => set({ hands: { left, right } }),
+      setActiveGesture: (gesture, confidence) => set({ activeGesture: gesture, gestureConfidence: confidence }),
+      emitGesture: (event) => gestureListeners.forEach((listener) => listener(event)),
+      setInputSource: (source) => set({ inputSource: source }),
+      setHandFilter: (settings) => set({ handFilter: settings }),
+      setWebcam: (settings) => set({ webcam: settings }),
+      saveCalibrationProfile: (profile) => set((state) => ({
+        calibrationProfiles: state.calibrationProfiles.some((p) => p.id === profile.id)
+          ? state.calibrationProfiles.map((p) => (p.id === profile.id ? profile : p))
+          : [...state.calibrationProfiles, profile],
+        activeProfileId: profile.id,
+      })),
+      removeCalibrationProfile: (id) => set((state) => ({
+        calibrationProfiles: state.calibrationProfiles.filter((p) => p.id !== id),
+        activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+      })),
+      setActiveProfile: (id) => set({ activeProfileId: id }),
+      setQuality: (quality) => set(quality === 'auto' ? { quality } : { quality, qualityLevel: quality }),
+      setQualityLevel: (level) => set({ qualityLevel: level }),
+      setFormation: (settings) => set({ formation: settings }),
+      setLightShow: (settings) => set({ lightShow: settings }),
+      setMusic: (settings) => set({ music: settings }),
+      setSound: (settings) => set({ sound: settings }),
+      addUserPhotos: (photos) => set((state) => ({ userPhotos: [...state.userPhotos, ...photos] })),
+      removeUserPhoto: (id) => set((state) => ({ userPhotos: state.userPhotos.filter((p) => p.id !== id) })),
+      setPhotoCaption: (id, caption) => set((state) => ({
+        userPhotos: state.userPhotos.map((p) => (p.id === id ? { ...p, caption } : p)),
+      })),
+      setPhotoMode: (mode) => set({ photoMode: mode }),
+      setStorageWarning: (message) => set({ storageWarning: message }),
+      setShareNotice: (message) => set({ shareNotice: message }),
+      applyTreeConfig: (config) => set(config),
+      previewSharedTree: (config) => set((state) => {
+        // Previewing a second link still goes back to the tree the user had before the first
+        const ownTree = state.ownTree ?? pickTreeConfig(state);
+        const sharedIds = new Set(config.customThemes.map((t) => t.id));
+        return {
+          ...config,
+          // The sender's themes join the user's own rather than replacing them
+          customThemes: [...ownTree.customThemes.filter((t) => !sharedIds.has(t.id)), ...config.customThemes],
+          ownTree,
+        };
+      }),
+      keepSharedTree: () => set({ ownTree: null }),
+      discardSharedTree: () => set((state) => (state.ownTree ? { ...state.ownTree, ownTree: null } : {})),
+      setBlessings: (messages) => set({ blessings: messages }),
+      setCardThemes: (ids) => set({ cardThemes: ids }),
+      saveCustomTheme: (theme) => set((state) => ({
+        customThemes: state.customThemes.some((t) => t.id === theme.id)
+          ? state.customThemes.map((t) => (t.id === theme.id ? theme : t))
+          : [...state.customThemes, theme],
+      })),
+      removeCustomTheme: (id) => set((state) => ({
+        customThemes: state.customThemes.filter((t) => t.id !== id),
+        cardThemes: state.cardThemes.filter((t) => t !== id),
+      })),
+      resetToDefaults: () => set({ ...DEFAULT_SETTINGS, userPhotos: [], storageWarning: null, ownTree: null }),
+    }),
+    {
+      name: SETTINGS_STORAGE_KEY,
+      version: SETTINGS_VERSION,
+      storage: createJSONStorage(() => createSafeLocalStorage(reportStorageWarning)),
+      // Only configuration goes to localStorage; hand state is live input and photos live in IndexedDB.
+      // While a shared tree is previewed, the user's own tree is the one that stays saved.
+      partialize: (state): PersistedSettings => ({
+        ...pickTreeConfig(state.ownTree ?? state),
+        photoMode: state.photoMode,
+        handFilter: state.handFilter,
+        webcam: state.webcam,
+        calibrationProfiles: state.calibrationProfiles,
+        activeProfileId: state.activeProfileId,
+        quality: state.quality,
+        formation: state.formation,
+        lightShow: state.lightShow,
+        music: state.music,
+        sound: state.sound,
+      }),
+      migrate: migrateSettings,
+      // Records already at the current version skip `migrate`, so the field checks run here too
+      merge: (persisted, current) => ({ ...current, ...readSettings(persisted) }),
+      // A fixed preset applies from the first frame; 'auto' starts at the default level and adjusts
+      onRehydrateStorage: () => (state) => {
+        if (state && state.quality !== 'auto') state.setQualityLevel(state.quality);
+      },
+    }
+  )
+);
+
+/**
+ * Restores saved photos from IndexedDB, then mirrors every later change of `userPhotos` back to it.
+ */
+export const initPhotoPersistence = async () => {
+  requestPersistentStorage();
+
+  let saved: UserPhoto[] = [];
+  try {
+    saved = await loadPhotos();
+  } catch (error) {
+    console.error("Could not restore saved photos:", error);
+  }
+
+  let previous = saved;
+  let pendingWrite = Promise.resolve();
+
+  const mirror = (current: UserPhoto[]) => {
+    if (current === previous) return;
+    const before = previous;
+    previous = current;
+
+    // Serialize writes so a quick add-then-remove lands in order
+    pendingWrite = pendingWrite
+      .then(() => savePhotoChanges(current, before))
+      .catch((error) => {
+        console.error("Could not save photos:", error);
+        reportStorageWarning(isQuotaError(error)
+          ? 'Browser storage is full. New photos will not survive a reload.'
+          : 'Photos could not be saved in this browser.');
+      });
+  };
+
+  // Photos uploaded while we were loading go after the saved ones, and are stored straight away
+  useTreeStore.setState((state) => ({ userPhotos: [...saved, ...state.userPhotos] }));
+  mirror(useTreeStore.getState().userPhotos);
+  useTreeStore.subscribe((state) => mirror(state.userPhotos));
+};
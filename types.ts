@@ -1,17 +1,222 @@
-export interface TreeState {
+import type { StationeryTheme } from './components/StationeryThemes';
+
+export interface UserPhoto {
+  id: string;
+  url: string; // Downscaled image Data URL
+  caption: string; // Handwritten text on the Polaroid's bottom strip
+}
+
+// How uploaded photos share the tree with the blessing cards
+export type PhotoMode = 'mixed' | 'photos';
+
+export interface Headline {
+  top: string; // "MERRY" (left in landscape, upper line in portrait)
+  bottom: string; // "CHRISTMAS"
+  font: string; // CSS font-family to rasterize; empty = the built-in 3D typeface (Latin only)
+}
+
+// Instance counts per ornament layer, by role rather than colour
+export interface OrnamentCounts {
+  primary: number; // Large glossy balls
+  secondary: number; // Large metallic balls
+  accent: number; // Medium balls
+  small: number; // Small balls
+  lights: number; // Per colour of fairy light (four colours)
+}
+
+// Scene palettes (see ColorThemes)
+export type ColorThemeId = 'midnight' | 'classic' | 'icy' | 'neon' | 'gold';
+
+export type TreeShapeId = 'cone' | 'fir' | 'spiral' | 'rings' | 'pine' | 'custom';
+
+// The tree's silhouette and size (see TreeShapes)
+export interface TreeShape {
+  id: TreeShapeId;
+  height: number;
+  width: number; // Radius at the base
+  profile: number[]; // 'custom' only: radius as a fraction of width at evenly spaced heights, base to tip
+}
+
+// The shareable, persisted description of a decorated tree
+export interface TreeConfig {
+  blessings: string[];
+  headline: Headline;
+  ornamentCounts: OrnamentCounts;
+  cardThemes: string[]; // Stationery theme ids, cycled across the message cards
+  customThemes: StationeryTheme[]; // User-made themes (always with a registered decoration id)
+  treeShape: TreeShape;
+  layoutSeed: number; // Seeds every random placement, so the same seed rebuilds the same tree
+  colorTheme: ColorThemeId;
+}
+
+export type HandSide = 'left' | 'right';
+
+export interface HandState {
+  x: number; // Normalized, mirrored (0 to 1)
+  y: number;
+  z: number; // Wrist-to-MCP size, proximity proxy
+  isOpen: boolean;
+  openness: number; // Raw fingertip reach the open/closed decision is made from
+}
+
+// Hand input smoothing (One Euro filter) and open/closed debounce, tuned per device
+export interface HandFilterSettings {
+  minCutoff: number; // Hz; lower = steadier at rest, more lag
+  beta: number; // How quickly the cutoff opens up with hand speed
+  openHoldMs: number; // How long a hand must stay open before the tree scatters
+  closeHoldMs: number; // How long it must stay closed before the tree re-forms
+}
+
+// Which camera the vision pipeline opens, and at what resolution (see VisionSources)
+export interface WebcamSettings {
+  deviceId: string | null; // null = browser default
+  resolution: string; // WEBCAM_RESOLUTIONS id
+}
+
+// One person's reach and open-hand threshold, recorded by the calibration wizard
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  xMin: number; // Mirrored hand X at the furthest comfortable reach left / right
+  xMax: number;
+  yMin: number; // Hand Y at the highest / lowest comfortable reach
+  yMax: number;
+  zFar: number; // Hand size (handZ) with the hand pulled back / brought close
+  zNear: number;
+  openThreshold: number; // Openness above which the hand counts as open
+}
+
+export type FormationId = 'sphere' | 'galaxy' | 'snowfall' | 'heart' | 'ring' | 'helix' | 'text' | 'image';
+
+// What the tree scatters into when the hand opens (see Formations)
+export interface FormationSettings {
+  id: FormationId;
+  cycle: boolean; // Move on to the next formation with every open gesture
+  text: string; // 'text': the word to spell out
+  silhouette: number[]; // 'image': points sampled inside an uploaded picture, x/y pairs in -1..1
+}
+
+export type LightPattern = 'steady' | 'chase' | 'blink' | 'rainbow' | 'breathe' | 'sparkle';
+
+export interface LightProgramStep {
+  pattern: LightPattern;
+  seconds: number;
+}
+
+// How the fairy lights animate (see LightSequences)
+export interface LightShowSettings {
+  pattern: LightPattern | 'program'; // 'program' plays the steps below in order, on a loop
+  program: LightProgramStep[];
+  speed: number; // Multiplier on every pattern's tempo
+  brightness: number; // Multiplier on the lights' glow
+}
+
+// How strongly the scene reacts to music (see AudioAnalysis)
+export interface MusicSettings {
+  sensitivity: number; // Gain on the measured levels; higher also finds beats in quieter music
+}
+
+// Sound effects and ambience (see SoundEffects); the volume covers music too
+export interface SoundSettings {
+  volume: number; // Master volume, 0 to 1
+  muted: boolean;
+  ambience: boolean; // Background winter wind
+}
+
+// Rendering presets (see QualityManager); 'auto' picks one from measured frame time
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
+export type QualitySetting = QualityLevel | 'auto';
+
+export type GestureType =
+  | 'pinch'
+  | 'point'
+  | 'thumbs-up'
+  | 'victory'
+  | 'fist'
+  | 'fist-hold'
+  | 'swipe-left'
+  | 'swipe-right';
+
+// A discrete gesture, published once when it is recognized
+export interface GestureEvent {
+  id: number; // Increments per event, so repeated gestures of the same type are distinguishable
+  type: GestureType;
+  confidence: number; // 0 to 1
+  x: number; // Normalized, mirrored like handX
+  y: number;
+  timestamp: number;
+}
+
+// What is currently driving the hand state: the webcam, or one of the fallback controls
+export type InputSource = 'camera' | 'keyboard' | 'mouse' | 'touch';
+
+export interface TreeState extends TreeConfig {
   handX: number; // Normalized X position (0 to 1)
   handY: number; // Normalized Y position (0 to 1)
   handZ: number; // Normalized Scale/Proximity (0 to 1 approx)
   isTracking: boolean;
   isHandOpen: boolean; // true = scatter/control, false = tree
-  userPhotos: string[]; // List of uploaded image Data URLs
+  hands: Record<HandSide, HandState | null>; // Both tracked hands; the fields above follow the primary one
+  activeGesture: GestureType | null; // Pose currently held (after hysteresis)
+  gestureConfidence: number;
+  inputSource: InputSource;
+  handFilter: HandFilterSettings;
+  webcam: WebcamSettings;
+  calibrationProfiles: CalibrationProfile[];
+  activeProfileId: string | null; // null = uncalibrated defaults
+  quality: QualitySetting;
+  qualityLevel: QualityLevel; // The preset being rendered (follows `quality` unless it is 'auto')
+  formation: FormationSettings;
+  lightShow: LightShowSettings;
+  music: MusicSettings;
+  sound: SoundSettings;
+  userPhotos: UserPhoto[]; // Uploaded photos shown as Polaroid cards
+  photoMode: PhotoMode;
+  storageWarning: string | null; // Shown when local persistence fails (e.g. quota exceeded)
+  shareNotice: string | null; // Shown when a shared link could not be applied
+  ownTree: TreeConfig | null; // The user's saved tree, set aside while a shared one is previewed
   setHandPosition: (x: number, y: number, z: number, isTracking: boolean, isHandOpen: boolean) => void;
-  addUserPhotos: (photos: string[]) => void;
+  setHands: (left: HandState | null, right: HandState | null) => void;
+  setActiveGesture: (gesture: GestureType | null, confidence: number) => void;
+  emitGesture: (event: GestureEvent) => void; // Delivered to subscribeGestures listeners
+  setInputSource: (source: InputSource) => void;
+  setHandFilter: (settings: HandFilterSettings) => void;
+  setWebcam: (settings: WebcamSettings) => void;
+  saveCalibrationProfile: (profile: CalibrationProfile) => void;
+  removeCalibrationProfile: (id: string) => void;
+  setActiveProfile: (id: string | null) => void;
+  setQuality: (quality: QualitySetting) => void;
+  setQualityLevel: (level: QualityLevel) => void;
+  setFormation: (settings: FormationSettings) => void;
+  setLightShow: (settings: LightShowSettings) => void;
+  setMusic: (settings: MusicSettings) => void;
+  setSound: (settings: SoundSettings) => void;
+  addUserPhotos: (photos: UserPhoto[]) => void;
+  removeUserPhoto: (id: string) => void;
+  setPhotoCaption: (id: string, caption: string) => void;
+  setPhotoMode: (mode: PhotoMode) => void;
+  setStorageWarning: (message: string | null) => void;
+  setShareNotice: (message: string | null) => void;
+  setBlessings: (messages: string[]) => void;
+  setCardThemes: (ids: string[]) => void;
+  saveCustomTheme: (theme: StationeryTheme) => void;
+  removeCustomTheme: (id: string) => void;
+  applyTreeConfig: (config: Partial<TreeConfig>) => void;
+  previewSharedTree: (config: TreeConfig) => void; // Shows a shared tree; the saved one stays saved
+  keepSharedTree: () => void;
+  discardSharedTree: () => void; // Goes back to the user's own tree
+  resetToDefaults: () => void;
 }
 
+// What the store keeps in localStorage (see `partialize` in store.ts)
+export type PersistedSettings = TreeConfig & Pick<TreeState,
+  'photoMode' | 'handFilter' | 'webcam' | 'calibrationProfiles' | 'activeProfileId' |
+  'quality' | 'formation' | 'lightShow' | 'music' | 'sound'
+>;
+
 export enum LoadingStatus {
   INITIALIZING = 'INITIALIZING',
   LOADING_MODEL = 'LOADING_MODEL',
   READY = 'READY',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
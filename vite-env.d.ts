@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe wasm runtime is served from (default: bundled with the app)
+  readonly VITE_VISION_WASM_PATH?: string;
+  // URL of hand_landmarker.task (default: public/models, see `npm run fetch:model`)
+  readonly VITE_HAND_MODEL_PATH?: string;
+}
@@ -1,9 +1,33 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createReadStream, existsSync, readdirSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const MEDIAPIPE_WASM_DIR = fileURLToPath(new URL('./node_modules/@mediapipe/tasks-vision/wasm', import.meta.url))
+
+// Serve the MediaPipe wasm runtime from our own origin so hand tracking works offline.
+// Dev: streamed straight from node_modules. Build: copied to dist/mediapipe/wasm.
+const mediapipeWasm = (): Plugin => ({
+  name: 'mediapipe-wasm',
+  configureServer(server) {
+    server.middlewares.use('/mediapipe/wasm', (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename((req.url ?? '').split('?')[0]))
+      if (!existsSync(file)) return next()
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript')
+      createReadStream(file).pipe(res)
+    })
+  },
+  generateBundle() {
+    for (const name of readdirSync(MEDIAPIPE_WASM_DIR)) {
+      this.emitFile({ type: 'asset', fileName: `mediapipe/wasm/${name}`, source: readFileSync(path.join(MEDIAPIPE_WASM_DIR, name)) })
+    }
+  },
+})
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediapipeWasm()],
   server: {
     // Expose to network (0.0.0.0) so you can test webcam on mobile via local IP
     host: true, 
@@ -13,4 +37,4 @@ export default defineConfig({
     // Ensure these are pre-bundled to avoid reloading
     include: ['three', '@react-three/fiber', '@react-three/drei', 'three-stdlib']
   }
-})
\ No newline at end of file
+})